@@ -5,6 +5,7 @@ import { Providers } from "./providers";
 import { Analytics } from "@vercel/analytics/react";
 import { SiteHeader } from "@/components/site-header";
 import { SiteFooter } from "@/components/site-footer";
+import { CallBar } from "@/components/call-bar";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -40,6 +41,7 @@ export default function RootLayout({
             </main>
             <SiteFooter />
           </div>
+          <CallBar />
         </Providers>
         <Analytics />
       </body>
@@ -0,0 +1,98 @@
+"use client"
+
+import { useCallback } from "react"
+import { Loader2, MessageSquareText, Mic, MicOff, PhoneOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useCallState } from "@/lib/call-state"
+import { getHistoryItemName, usePromptHistory } from "@/lib/prompt-history"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { CallLevels, CallTimer } from "./call-status"
+
+// Stays on screen for the whole call, whichever tab or history row it was started from
+export function CallBar() {
+  const callState = useCallState(state => state.state)
+  const callInfo = useCallState(state => state.callInfo)
+  const activeButtonId = useCallState(state => state.activeButtonId)
+  const muted = useCallState(state => state.muted)
+  const setMuted = useCallState(state => state.setMuted)
+  const endCall = useCallState(state => state.endCall)
+  const showTranscript = useCallState(state => state.showTranscript)
+  const item = usePromptHistory(state => state.items.find(existing => existing.content === callInfo?.systemPrompt))
+  const { toast } = useToast()
+
+  const handleEndCall = useCallback(async () => {
+    if (!activeButtonId) {
+      return
+    }
+    try {
+      await endCall(activeButtonId)
+    } catch (error) {
+      toast({
+        title: "Call Error",
+        description: error instanceof Error ? error.message : "Failed to end call",
+        variant: "destructive",
+      })
+    }
+  }, [activeButtonId, endCall, toast])
+
+  if ((callState !== "connecting" && callState !== "active") || !callInfo) {
+    return null
+  }
+
+  const isActive = callState === "active"
+  const name = item ? getHistoryItemName(item) : `${callInfo.context.companyName} prompt`
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4 pointer-events-none">
+      <div
+        role="region"
+        aria-label="Call controls"
+        className="pointer-events-auto flex max-w-full items-center gap-3 rounded-full border bg-white py-1.5 pl-4 pr-1.5 shadow-lg"
+      >
+        <span className={cn(
+          "h-2 w-2 shrink-0 rounded-full",
+          isActive ? "animate-pulse bg-green-600" : "bg-yellow-500"
+        )} />
+        <div className="min-w-0 text-sm">
+          <div className="truncate font-medium">{name}</div>
+          <div className="truncate text-xs text-muted-foreground">
+            {isActive ? `Talking to ${callInfo.context.assistantName}` : "Connecting call..."}
+          </div>
+        </div>
+        {isActive && (
+          <>
+            <CallTimer className="text-sm text-muted-foreground" />
+            <CallLevels />
+          </>
+        )}
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-8 rounded-full px-3" onClick={showTranscript}>
+            <MessageSquareText className="h-4 w-4" />
+            Transcript
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn("h-8 w-8 rounded-full p-0", muted && "border-destructive/50 text-destructive")}
+            onClick={() => setMuted(!muted)}
+            disabled={!isActive}
+          >
+            {muted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+            <span className="sr-only">{muted ? "Unmute microphone" : "Mute microphone"}</span>
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            className="h-8 w-8 rounded-full p-0"
+            onClick={handleEndCall}
+            disabled={!isActive}
+          >
+            {isActive ? <PhoneOff className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+            <span className="sr-only">End call</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
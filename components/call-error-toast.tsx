@@ -6,6 +6,7 @@ export function CallErrorToast() {
   const { toast } = useToast()
   const error = useCallState(state => state.error)
   const state = useCallState(state => state.state)
+  const recordWarning = useCallState(state => state.recordWarning)
 
   useEffect(() => {
     if (error && state === 'error') {
@@ -17,5 +18,15 @@ export function CallErrorToast() {
     }
   }, [error, state, toast])
 
+  useEffect(() => {
+    if (recordWarning) {
+      toast({
+        title: "Call Not Saved",
+        description: recordWarning,
+        variant: "destructive",
+      })
+    }
+  }, [recordWarning, toast])
+
   return null
 }
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, Loader2, Phone, Sparkles } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { usePromptHistory, type CallRecord } from "@/lib/prompt-history"
+import { formatDuration } from "@/lib/call-state"
+import { SCORECARD_CATEGORIES, getOverallScore, type CallScorecard } from "@/lib/call-analysis"
+import { cn } from "@/lib/utils"
+import { TranscriptBubble } from "./call-transcript"
+
+// "customer-ended-call" reads as "Customer ended call"
+function formatEndedReason(reason: string) {
+  const words = reason.replace(/[-_.]+/g, " ").trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function getScoreColor(score: number) {
+  if (score >= 7.5) {
+    return "bg-emerald-500"
+  }
+  return score >= 5 ? "bg-amber-500" : "bg-destructive"
+}
+
+function ScorecardView({ scorecard }: { scorecard: CallScorecard }) {
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/30 p-3 text-xs">
+      <div className="space-y-2">
+        {SCORECARD_CATEGORIES.map(category => {
+          const { score, comment } = scorecard.scores[category.id]
+          return (
+            <div key={category.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="w-32 shrink-0 font-medium">{category.name}</span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+                  <div className={cn("h-full", getScoreColor(score))} style={{ width: `${score * 10}%` }} />
+                </div>
+                <span className="w-8 text-right tabular-nums">{score}/10</span>
+              </div>
+              <p className="text-muted-foreground">{comment}</p>
+            </div>
+          )
+        })}
+      </div>
+      <p>{scorecard.summary}</p>
+      {scorecard.suggestions.length > 0 && (
+        <div className="space-y-1">
+          <span className="font-medium">Suggested prompt edits</span>
+          <ul className="list-disc space-y-1 pl-4">
+            {scorecard.suggestions.map((suggestion, index) => (
+              <li key={index}>{suggestion}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-[10px] text-muted-foreground">
+        Scored by {scorecard.model} on {new Date(scorecard.createdAt).toLocaleString()}
+      </p>
+    </div>
+  )
+}
+
+interface CallRecordRowProps {
+  record: CallRecord
+  onScore: () => void
+}
+
+function CallRecordRow({ record, onScore }: CallRecordRowProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const isScoring = usePromptHistory(state => state.scoringCallIds.includes(record.id))
+  const started = new Date(record.startedAt)
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-md border bg-white">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs hover:bg-muted/50"
+        >
+          <ChevronDown className={`h-3 w-3 shrink-0 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`} />
+          <span className="font-medium">
+            {started.toLocaleDateString()} {started.toLocaleTimeString()}
+          </span>
+          <span className="text-muted-foreground">{formatDuration(record.durationMs)}</span>
+          {isScoring ? (
+            <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+          ) : record.scorecard && (
+            <span className="rounded-full bg-muted px-1.5 py-0.5 font-medium tabular-nums">
+              {getOverallScore(record.scorecard)}/10
+            </span>
+          )}
+          <span className="ml-auto truncate text-muted-foreground">{formatEndedReason(record.endedReason)}</span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up overflow-hidden">
+        <div className="space-y-3 border-t p-3">
+          {record.scorecard && <ScorecardView scorecard={record.scorecard} />}
+          {record.transcript.length > 0 && (
+            <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={onScore} disabled={isScoring}>
+              <Sparkles className="h-3 w-3" />
+              {isScoring ? "Scoring..." : record.scorecard ? "Score again" : "Score call"}
+            </Button>
+          )}
+          {record.transcript.length === 0 ? (
+            <p className="text-center text-xs text-muted-foreground">Nothing was said on this call.</p>
+          ) : (
+            record.transcript.map((turn, index) => (
+              <TranscriptBubble key={`${turn.timestamp}-${index}`} role={turn.role} text={turn.text} />
+            ))
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+interface CallRecordsProps {
+  calls: CallRecord[]
+  onScore: (callId: string) => void
+}
+
+export function CallRecords({ calls, onScore }: CallRecordsProps) {
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+        <Phone className="h-3 w-3" />
+        Test calls ({calls.length})
+      </h4>
+      {[...calls].reverse().map(record => (
+        <CallRecordRow key={record.id} record={record} onScore={() => onScore(record.id)} />
+      ))}
+    </div>
+  )
+}
@@ -1,6 +1,57 @@
-import { useCallState } from "@/lib/call-state"
+import { Mic, MicOff, Volume2 } from "lucide-react"
+import { formatDuration, useCallState } from "@/lib/call-state"
 import { cn } from "@/lib/utils"
 
+const METER_BARS = 5
+
+interface VolumeMeterProps {
+  level: number
+  className?: string
+}
+
+// Bars light up from left to right as the level rises
+export function VolumeMeter({ level, className }: VolumeMeterProps) {
+  return (
+    <span className={cn("flex h-3 items-end gap-px", className)} aria-hidden>
+      {Array.from({ length: METER_BARS }, (_, index) => (
+        <span
+          key={index}
+          className={cn(
+            "w-0.5 rounded-full transition-colors",
+            level > index / METER_BARS ? "bg-green-600" : "bg-muted-foreground/30"
+          )}
+          style={{ height: `${((index + 1) / METER_BARS) * 100}%` }}
+        />
+      ))}
+    </span>
+  )
+}
+
+export function CallTimer({ className }: { className?: string }) {
+  const elapsedMs = useCallState(state => state.elapsedMs)
+  return <span className={cn("tabular-nums", className)}>{formatDuration(elapsedMs)}</span>
+}
+
+// Microphone and assistant levels side by side; the microphone reads zero while muted
+export function CallLevels() {
+  const muted = useCallState(state => state.muted)
+  const inputVolume = useCallState(state => state.inputVolume)
+  const outputVolume = useCallState(state => state.outputVolume)
+
+  return (
+    <>
+      <span className="flex items-center gap-1 text-muted-foreground" title={muted ? "Microphone muted" : "Microphone"}>
+        {muted ? <MicOff className="h-3.5 w-3.5 text-destructive" /> : <Mic className="h-3.5 w-3.5" />}
+        <VolumeMeter level={muted ? 0 : inputVolume} />
+      </span>
+      <span className="flex items-center gap-1 text-muted-foreground" title="Assistant">
+        <Volume2 className="h-3.5 w-3.5" />
+        <VolumeMeter level={outputVolume} />
+      </span>
+    </>
+  )
+}
+
 export function CallStatus({ className }: { className?: string }) {
   const state = useCallState(state => state.state)
   const error = useCallState(state => state.error)
@@ -32,8 +83,14 @@ export function CallStatus({ className }: { className?: string }) {
   }
 
   return (
-    <div className={cn("text-sm font-medium", getStatusColor(), className)}>
-      {getStatusText()}
+    <div className={cn("flex items-center gap-3 text-sm font-medium", getStatusColor(), className)}>
+      <span>{getStatusText()}</span>
+      {state === 'active' && (
+        <>
+          <CallTimer />
+          <CallLevels />
+        </>
+      )}
     </div>
   )
 }
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Wrench } from "lucide-react"
+import { useCallState, type TranscriptRole } from "@/lib/call-state"
+import { useMockCalendar, type ToolCallEvent } from "@/lib/mock-calendar"
+import { cn } from "@/lib/utils"
+import { CallStatus } from "./call-status"
+
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+  assistant: "Assistant",
+  user: "You",
+}
+
+interface TranscriptBubbleProps {
+  role: TranscriptRole
+  text: string
+  partial?: boolean
+}
+
+export function TranscriptBubble({ role, text, partial = false }: TranscriptBubbleProps) {
+  return (
+    <div className={cn("flex flex-col gap-0.5", role === "user" ? "items-end" : "items-start")}>
+      <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+        {ROLE_LABELS[role]}
+      </span>
+      <p
+        className={cn(
+          "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+          role === "user" ? "bg-primary text-primary-foreground" : "border bg-white",
+          partial && "opacity-60 italic"
+        )}
+      >
+        {text}
+      </p>
+    </div>
+  )
+}
+
+function ToolCallNote({ event }: { event: ToolCallEvent }) {
+  return (
+    <div className={cn(
+      "flex items-start gap-1.5 rounded-md border border-dashed px-3 py-1.5 font-mono text-[11px]",
+      event.success ? "text-muted-foreground" : "border-destructive/40 text-destructive"
+    )}>
+      <Wrench className="mt-0.5 h-3 w-3 shrink-0" />
+      <span className="break-all">
+        {event.name}({JSON.stringify(event.args)}) {event.success ? "→" : "failed →"} {JSON.stringify(event.result)}
+      </span>
+    </div>
+  )
+}
+
+export function CallTranscript() {
+  const transcript = useCallState(state => state.transcript)
+  const partialTranscripts = useCallState(state => state.partialTranscripts)
+  const assistantSpeaking = useCallState(state => state.assistantSpeaking)
+  const callState = useCallState(state => state.state)
+  const toolEvents = useMockCalendar(state => state.events)
+  const endRef = useRef<HTMLDivElement>(null)
+
+  // Keep the latest turn in view as the call goes on
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" })
+  }, [transcript, partialTranscripts, toolEvents])
+
+  const partials = (["assistant", "user"] as const).filter(role => partialTranscripts[role])
+  const isEmpty = transcript.length === 0 && partials.length === 0 && toolEvents.length === 0
+  // Tool calls are shown between the turns they happened in
+  const entries = [
+    ...transcript.map(turn => ({ kind: "turn" as const, timestamp: turn.timestamp, turn })),
+    ...toolEvents.map(event => ({ kind: "tool" as const, timestamp: event.timestamp, event })),
+  ].sort((a, b) => a.timestamp - b.timestamp)
+
+  return (
+    <div className="flex h-full flex-col rounded-lg border bg-white/50">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <CallStatus />
+        {callState === "active" && (
+          <span className={cn(
+            "flex items-center gap-1.5 text-xs",
+            assistantSpeaking ? "text-green-600" : "text-muted-foreground"
+          )}>
+            <span className={cn(
+              "h-2 w-2 rounded-full",
+              assistantSpeaking ? "animate-pulse bg-green-600" : "bg-muted-foreground/40"
+            )} />
+            {assistantSpeaking ? "Assistant speaking" : "Listening"}
+          </span>
+        )}
+      </div>
+      <div className="flex-1 space-y-3 overflow-auto p-4">
+        {isEmpty ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {callState === "idle"
+              ? "Start a test call to see the conversation here as it happens."
+              : "Waiting for someone to speak..."}
+          </p>
+        ) : (
+          <>
+            {entries.map((entry, index) => entry.kind === "turn" ? (
+              <TranscriptBubble key={`${entry.timestamp}-${index}`} role={entry.turn.role} text={entry.turn.text} />
+            ) : (
+              <ToolCallNote key={`${entry.timestamp}-${index}`} event={entry.event} />
+            ))}
+            {partials.map(role => (
+              <TranscriptBubble key={`partial-${role}`} role={role} text={partialTranscripts[role]!} partial />
+            ))}
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
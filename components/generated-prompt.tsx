@@ -1,177 +1,337 @@
 "use client"
 
-import { CopyButton, DeleteButton, CallButton } from "./prompt-actions"
+import { CopyButton, DeleteButton, CallButton, StopButton, SaveButton, EditButton, ExportButton } from "./prompt-actions"
 import { CallErrorToast } from "./call-error-toast"
-import ReactMarkdown from "react-markdown"
 import { useEffect, useState, useCallback, useRef } from "react"
 import { PromptHistory } from "./prompt-history"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { FormValues, ApiKeyValues } from "./prompt-form"
-
-interface PromptHistoryItem {
-  id: string
-  content: string
-  timestamp: number
-  formData: Omit<FormValues, keyof ApiKeyValues>
-}
+import { FormValues, ApiKeyValues, pickApiKeyValues, pickFormValues } from "./prompt-form"
+import { TemplateLibrary } from "./template-library"
+import { WorkspaceTransfer } from "./workspace-transfer"
+import { CallTranscript } from "./call-transcript"
+import { VariantComparison, type PromptVariant } from "./variant-comparison"
+import { RefinePanel } from "./refine-panel"
+import { SectionedPrompt } from "./sectioned-prompt"
+import { PromptEditor } from "./prompt-editor"
+import { ToolDefinitions } from "./tool-definitions"
+import { type PromptHistoryItem, type PromptRevision, usePromptHistory } from "@/lib/prompt-history"
+import { type RefinementTurn } from "@/lib/openai"
+import { useTemplateLibrary, toTemplateReference } from "@/lib/templates"
+import { exportVoiceAgent, type ExportablePrompt } from "@/lib/prompt-export"
+import { getCallContext, useCallState } from "@/lib/call-state"
+import { getMissingProviderField } from "@/lib/providers"
+import { useToast } from "@/hooks/use-toast"
 
 interface GeneratedPromptProps {
   prompt: string | null
   isLoading: boolean
+  isPartial: boolean
+  variants: PromptVariant[]
+  revision: PromptRevision | null
+  refinementTurns: RefinementTurn[]
+  regeneratingSection: number | null
   currentFormData: (FormValues & ApiKeyValues) | null
   onRestoreFormData: (formData: FormValues & ApiKeyValues) => void
   onRestorePrompt: (prompt: string) => void
   onClearPrompt: () => void
+  onStop: () => void
+  onKeepPartial: () => void
+  onRefine: (instruction: string) => Promise<boolean>
+  onRegenerateSection: (index: number) => Promise<boolean>
+  onSaveEdit: (content: string) => void
+  onPickVariant: (variant: PromptVariant) => void
+  onDiscardVariants: () => void
   containerHeight: number
 }
 
-const HISTORY_STORAGE_KEY = "prompt-history"
 const CURRENT_PROMPT_KEY = "current-prompt"
+// Room left below the prompt for the refine panel
+const REFINE_PANEL_HEIGHT = 120
 
 export function GeneratedPrompt({ 
   prompt, 
   isLoading, 
+  isPartial,
+  variants,
+  revision,
+  refinementTurns,
+  regeneratingSection,
   currentFormData,
   onRestoreFormData,
   onRestorePrompt,
   onClearPrompt,
+  onStop,
+  onKeepPartial,
+  onRefine,
+  onRegenerateSection,
+  onSaveEdit,
+  onPickVariant,
+  onDiscardVariants,
   containerHeight
 }: GeneratedPromptProps) {
-  const [history, setHistory] = useState<PromptHistoryItem[]>([])
+  const history = usePromptHistory(state => state.items)
+  const historyTotal = usePromptHistory(state => state.total)
+  const historyLoaded = usePromptHistory(state => state.loaded)
+  const loadHistory = usePromptHistory(state => state.load)
+  const addHistoryItem = usePromptHistory(state => state.addItem)
+  const deleteHistoryItem = usePromptHistory(state => state.deleteItem)
   const [activeTab, setActiveTab] = useState("current")
-  const [mounted, setMounted] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
   const initialPromptRef = useRef(prompt)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const getTemplate = useTemplateLibrary(state => state.getTemplate)
+  const latestCall = usePromptHistory(state => state.latestCall)
+  const scoreCallRecord = usePromptHistory(state => state.scoreCallRecord)
+  const generateItemTools = usePromptHistory(state => state.generateItemTools)
+  const scoredCallRef = useRef<string | null>(null)
+  const { toast } = useToast()
+  const callState = useCallState(state => state.state)
+  const hasTranscript = useCallState(state => state.transcript.length > 0)
+  const transcriptRequest = useCallState(state => state.transcriptRequest)
+  const tabsRef = useRef<HTMLDivElement>(null)
+  const showCallTab = callState !== "idle" || hasTranscript
 
+  // Load history from IndexedDB and the current prompt from localStorage
   useEffect(() => {
-    setMounted(true)
-  }, [])
-
-  // Load history and current prompt from localStorage
-  useEffect(() => {
-    const savedHistory = localStorage.getItem(HISTORY_STORAGE_KEY)
-    if (savedHistory) {
-      setHistory(JSON.parse(savedHistory))
-    }
+    loadHistory()
 
     const savedPrompt = localStorage.getItem(CURRENT_PROMPT_KEY)
     if (savedPrompt && !initialPromptRef.current) {
       onRestorePrompt(savedPrompt)
     }
-  }, [onRestorePrompt])
+  }, [loadHistory, onRestorePrompt])
+
+  const handleGenerateTools = useCallback(async (itemId: string) => {
+    const missingField = currentFormData ? getMissingProviderField(currentFormData) : undefined
+    if (!currentFormData || missingField) {
+      toast({
+        title: `${missingField?.label ?? "API Key"} Required`,
+        description: "Tools are generated with the provider selected in the form. Please check the API Configuration section.",
+        variant: "destructive",
+      })
+      return
+    }
 
-  // Add new prompt to history
+    try {
+      await generateItemTools(itemId, currentFormData)
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Tool Generation Failed",
+        description: error instanceof Error ? error.message : "The tool definitions could not be generated",
+        variant: "destructive",
+      })
+    }
+  }, [currentFormData, generateItemTools, toast])
+
+  // Add new prompt to history, leaving stopped generations out until they are kept
   useEffect(() => {
-    if (prompt && !isLoading) {
+    if (historyLoaded && prompt && !isLoading && !isPartial) {
       const newItem: PromptHistoryItem = {
-        id: Math.random().toString(36).substring(7),
+        id: crypto.randomUUID(),
         content: prompt,
         timestamp: Date.now(),
-        formData: currentFormData ? {
-          model: currentFormData.model,
-          aiName: currentFormData.aiName,
-          companyName: currentFormData.companyName,
-          industry: currentFormData.industry,
-          targetAudience: currentFormData.targetAudience,
-          challenges: currentFormData.challenges,
-          product: currentFormData.product,
-          objective: currentFormData.objective,
-          objections: currentFormData.objections,
-          additionalInfo: currentFormData.additionalInfo,
-        } : {
-          model: "gpt-4o-mini",
-          aiName: "",
-          companyName: "",
-          industry: "",
-          targetAudience: "",
-          challenges: "",
-          product: "",
-          objective: "",
-          objections: "",
-          additionalInfo: "",
-        }
+        formData: pickFormValues(currentFormData),
+        template: toTemplateReference(getTemplate(currentFormData?.templateId)),
+        parentId: revision ? history.find(item => item.content === revision.parentContent)?.id : undefined,
+        revisionNote: revision?.note
       }
 
-      // Only add to history if not already present
-      const existingItemIndex = history.findIndex(item => item.content === prompt);
-      if (existingItemIndex === -1) {
-        const updatedHistory = [newItem, ...history];
-        setHistory(updatedHistory);
-        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory));
-      }
+      // The store skips prompts that are already in history, so each new prompt gets its tools once
+      addHistoryItem(newItem).then((added) => {
+        if (added && currentFormData && !getMissingProviderField(currentFormData)) {
+          handleGenerateTools(newItem.id)
+        }
+      })
     }
-  }, [prompt, isLoading, currentFormData, history])
+  }, [historyLoaded, prompt, isLoading, isPartial, revision, currentFormData, history, addHistoryItem, getTemplate, handleGenerateTools])
 
-  // Handle tab switching only when new prompt is generated
+  // Handle tab switching when a new prompt starts generating or is restored
   useEffect(() => {
-    if (prompt && !isLoading) {
+    if (isLoading || prompt || variants.length > 0) {
       setActiveTab("current")
     }
+  }, [prompt, isLoading, variants.length])
+
+  // Show the live transcript as soon as a test call starts connecting, from any tab
+  useEffect(() => {
+    if (callState === "connecting") {
+      setActiveTab("call")
+    }
+  }, [callState])
+
+  // The call bar's transcript link opens the Call tab and brings it into view
+  useEffect(() => {
+    if (transcriptRequest > 0) {
+      setActiveTab("call")
+      tabsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
+    }
+  }, [transcriptRequest])
+
+  // Score each test call as soon as it is saved, if the form has a usable provider; otherwise it
+  // can be scored later from the History tab
+  useEffect(() => {
+    if (!latestCall || scoredCallRef.current === latestCall.callId) {
+      return
+    }
+    scoredCallRef.current = latestCall.callId
+
+    const record = history.find(item => item.id === latestCall.itemId)?.calls?.find(call => call.id === latestCall.callId)
+    if (!record?.transcript.length || !currentFormData || getMissingProviderField(currentFormData)) {
+      return
+    }
+    scoreCallRecord(latestCall.itemId, latestCall.callId, currentFormData).catch((error) => {
+      console.error(error)
+      toast({
+        title: "Scoring Failed",
+        description: error instanceof Error ? error.message : "The call could not be scored",
+        variant: "destructive",
+      })
+    })
+  }, [latestCall, history, currentFormData, scoreCallRecord, toast])
+
+  // Leave the Call tab once there is nothing left to show on it
+  useEffect(() => {
+    if (!showCallTab && activeTab === "call") {
+      setActiveTab("current")
+    }
+  }, [showCallTab, activeTab])
+
+  // A new generation or restored prompt replaces whatever was being edited
+  useEffect(() => {
+    if (isLoading || !prompt) {
+      setIsEditing(false)
+    }
   }, [prompt, isLoading])
 
-  // Save history to localStorage whenever it changes
+  // Follow the streamed text as it grows, unless a section is being rewritten in place
   useEffect(() => {
-    if (mounted && history.length > 0) {
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+    if (isLoading && prompt && regeneratingSection === null && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
     }
-  }, [history, mounted])
+  }, [prompt, isLoading, regeneratingSection])
 
-  // Save current prompt to localStorage
+  // Save current prompt to localStorage; partial prompts would be added to history on reload
   useEffect(() => {
     if (!isLoading) {
-      if (prompt) {
+      if (prompt && !isPartial) {
         localStorage.setItem(CURRENT_PROMPT_KEY, prompt)
       } else {
         localStorage.removeItem(CURRENT_PROMPT_KEY)
       }
     }
-  }, [prompt, isLoading])
+  }, [prompt, isLoading, isPartial])
 
   const handleRestoreItem = useCallback((item: PromptHistoryItem) => {
     // Preserve current API keys when restoring
     const restoredFormData = {
       ...item.formData,
-      apiKey: currentFormData?.apiKey || "",
-      vapiKey: currentFormData?.vapiKey || "",
+      ...pickApiKeyValues(currentFormData),
     };
     onRestoreFormData(restoredFormData)
     onRestorePrompt(item.content)
   }, [onRestoreFormData, onRestorePrompt, currentFormData])
 
+  // Variants are recorded with the model and temperature that produced them, not the form's
+  const handleSaveVariant = useCallback((variant: PromptVariant) => {
+    const newItem: PromptHistoryItem = {
+      id: crypto.randomUUID(),
+      content: variant.content,
+      timestamp: Date.now(),
+      formData: {
+        ...pickFormValues(currentFormData),
+        model: variant.model,
+        temperature: variant.temperature,
+        variants: [],
+      },
+      template: toTemplateReference(getTemplate(currentFormData?.templateId))
+    }
+
+    addHistoryItem(newItem)
+  }, [currentFormData, addHistoryItem, getTemplate])
+
+  const handlePickVariant = useCallback((variant: PromptVariant) => {
+    handleSaveVariant(variant)
+    onPickVariant(variant)
+  }, [handleSaveVariant, onPickVariant])
+
   const handleDeleteItem = (id: string) => {
-    // Update history
-    const updatedHistory = history.filter(item => item.id !== id)
-    setHistory(updatedHistory)
-    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory))
+    const itemToDelete = history.find(item => item.id === id);
+    deleteHistoryItem(id)
 
     // If the deleted item matches the current prompt, clear it
-    const itemToDelete = history.find(item => item.id === id);
     if (itemToDelete && itemToDelete.content === prompt) {
       onClearPrompt();
       localStorage.removeItem(CURRENT_PROMPT_KEY);
     }
   }
 
+  const currentItem = prompt ? history.find(item => item.content === prompt) : undefined
+
+  // Prefers the saved history item, which carries its title, template and tools
+  const getCurrentExportable = (): ExportablePrompt => (
+    currentItem ?? {
+      content: prompt ?? "",
+      formData: pickFormValues(currentFormData),
+      timestamp: Date.now(),
+    }
+  )
+
   return (
     <>
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full h-full flex flex-col">
+      <Tabs ref={tabsRef} value={activeTab} onValueChange={setActiveTab} className="w-full h-full flex flex-col">
         <div className="flex items-center justify-between mb-1 flex-none">
           <TabsList>
             <TabsTrigger value="current">Current</TabsTrigger>
+            {prompt && !isLoading && variants.length === 0 && (
+              <TabsTrigger value="tools" className="gap-1.5">
+                Tools
+                {currentItem?.tools && currentItem.tools.length > 0 && (
+                  <span className="text-xs text-muted-foreground">{currentItem.tools.length}</span>
+                )}
+              </TabsTrigger>
+            )}
             <TabsTrigger value="history" className="relative">
               History
-              {history.length > 0 && (
-                <span className="absolute -right-1 -top-1 flex h-4 w-4 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
-                  {history.length}
+              {historyTotal > 0 && (
+                <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-primary-foreground">
+                  {historyTotal}
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="workspace">Workspace</TabsTrigger>
+            {showCallTab && (
+              <TabsTrigger value="call" className="gap-1.5">
+                {callState === "active" && <span className="h-2 w-2 animate-pulse rounded-full bg-green-600" />}
+                Call
+              </TabsTrigger>
+            )}
           </TabsList>
         </div>
 
         <div className="flex-1 min-h-0 relative">
           <TabsContent value="current" className="absolute inset-0">
             <div className="relative max-h-full">
-              {isLoading ? (
+              {variants.length > 0 ? (
+                <VariantComparison
+                  variants={variants}
+                  onSave={handleSaveVariant}
+                  onPick={handlePickVariant}
+                  onDiscard={onDiscardVariants}
+                  maxHeight={containerHeight ? containerHeight - 150 : undefined}
+                />
+              ) : isEditing && prompt ? (
+                <PromptEditor
+                  initialValue={prompt}
+                  onSave={(content) => {
+                    onSaveEdit(content)
+                    setIsEditing(false)
+                  }}
+                  onCancel={() => setIsEditing(false)}
+                  maxHeight={containerHeight ? containerHeight - 140 : undefined}
+                />
+              ) : isLoading && !prompt ? (
                 <div className="prose prose-sm max-w-none rounded-md border bg-white/50 p-4 dark:prose-invert">
                   <div className="flex items-center justify-center">
                     <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-gray-900" />
@@ -179,8 +339,18 @@ export function GeneratedPrompt({
                 </div>
               ) : prompt ? (
                 <div className="prose prose-sm max-w-none rounded-md border bg-white/50 p-4 dark:prose-invert">
-                  <div className="overflow-auto" style={{ maxHeight: containerHeight ? `${containerHeight - 84}px` : 'auto' }}>
-                    <ReactMarkdown>{prompt}</ReactMarkdown>
+                  {isPartial && (
+                    <p className="not-prose mb-2 text-xs text-muted-foreground">
+                      Generation stopped. This partial prompt won&apos;t be saved to history unless you keep it.
+                    </p>
+                  )}
+                  <div ref={scrollRef} className="overflow-auto" style={{ maxHeight: containerHeight ? `${containerHeight - 84 - REFINE_PANEL_HEIGHT}px` : 'auto' }}>
+                    <SectionedPrompt
+                      prompt={prompt}
+                      isLoading={isLoading}
+                      regeneratingSection={regeneratingSection}
+                      onRegenerateSection={onRegenerateSection}
+                    />
                   </div>
                 </div>
               ) : (
@@ -188,8 +358,20 @@ export function GeneratedPrompt({
                   Your generated prompt will appear here.
                 </div>
               )}
-              {prompt && !isLoading && (
+              {(prompt || variants.length > 0) && isLoading && (
+                <div className="absolute right-2 -top-4 flex gap-1">
+                  <StopButton onStop={onStop} />
+                </div>
+              )}
+              {prompt && !isLoading && !isEditing && (
                 <div className="absolute right-2 -top-4 flex gap-1">
+                  {isPartial && (
+                    <SaveButton
+                      onSave={onKeepPartial}
+                      tooltipContent="Keep in history"
+                      savedMessage="Partial prompt added to history"
+                    />
+                  )}
                   <CallButton 
                     buttonId="generated-prompt-call"
                     onCall={async () => {
@@ -208,14 +390,16 @@ export function GeneratedPrompt({
                       return {
                         apiKey: currentFormData.vapiKey,
                         systemPrompt: prompt,
-                        context: {
-                          assistantName: currentFormData.aiName || 'AI Assistant',
-                          companyName: currentFormData.companyName || 'Company'
-                        }
+                        context: getCallContext(currentFormData, currentItem?.tools)
                       };
                     }}
                   />
+                  <EditButton onEdit={() => setIsEditing(true)} />
                   <CopyButton text={prompt} />
+                  <ExportButton
+                    prompts={() => [getCurrentExportable()]}
+                    onExportAgent={(platformId) => exportVoiceAgent(getCurrentExportable(), platformId)}
+                  />
                   <DeleteButton 
                     onDelete={() => {
                       // Only clear the current prompt, don't affect history
@@ -228,6 +412,23 @@ export function GeneratedPrompt({
                 </div>
               )}
             </div>
+            {variants.length === 0 && !isEditing && (prompt || refinementTurns.length > 0) && (
+              <div className="mt-2">
+                <RefinePanel
+                  turns={refinementTurns}
+                  isLoading={isLoading}
+                  onRefine={onRefine}
+                />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="tools" className="absolute inset-0">
+            <ToolDefinitions
+              item={currentItem}
+              onGenerate={() => currentItem && handleGenerateTools(currentItem.id)}
+              maxHeight={containerHeight ? containerHeight - 96 : undefined}
+            />
           </TabsContent>
 
           <TabsContent value="history" className="absolute inset-0">
@@ -240,6 +441,24 @@ export function GeneratedPrompt({
               />
             </div>
           </TabsContent>
+
+          <TabsContent value="templates" className="absolute inset-0">
+            <div className="h-full overflow-auto" style={{ maxHeight: containerHeight ? `${containerHeight - 48}px` : 'auto' }}>
+              <TemplateLibrary />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="workspace" className="absolute inset-0">
+            <div className="h-full overflow-auto" style={{ maxHeight: containerHeight ? `${containerHeight - 48}px` : 'auto' }}>
+              <WorkspaceTransfer />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="call" className="absolute inset-0">
+            <div className="h-full" style={{ maxHeight: containerHeight ? `${containerHeight - 48}px` : 'auto' }}>
+              <CallTranscript />
+            </div>
+          </TabsContent>
         </div>
       </Tabs>
       <CallErrorToast />
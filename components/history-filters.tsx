@@ -0,0 +1,184 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ChevronDown, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import {
+  DEFAULT_HISTORY_FILTERS,
+  hasActiveFilters,
+  type HistoryFilters as HistoryFilterValues,
+  type HistorySort,
+  type PromptHistoryItem,
+} from "@/lib/prompt-history"
+
+interface HistoryFiltersProps {
+  history: PromptHistoryItem[]
+  filters: HistoryFilterValues
+  onChange: (filters: HistoryFilterValues) => void
+  // Called when the filter panel opens, so the options can cover items beyond the loaded pages
+  onOpen: () => void
+  resultCount: number
+}
+
+// Select items can't have an empty value, so "any" stands in for no filter
+const ANY = "__any__"
+
+const SORT_LABELS: Record<HistorySort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name (A–Z)",
+}
+
+function uniqueValues(values: (string | undefined)[]) {
+  return Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b))
+}
+
+export function HistoryFilters({ history, filters, onChange, onOpen, resultCount }: HistoryFiltersProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const isFiltered = hasActiveFilters(filters)
+
+  const options = useMemo(() => ({
+    company: uniqueValues(history.map(item => item.formData.companyName)),
+    industry: uniqueValues(history.map(item => item.formData.industry)),
+    model: uniqueValues(history.map(item => item.formData.model)),
+    tag: uniqueValues(history.flatMap(item => item.tags ?? [])),
+  }), [history])
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open) {
+      onOpen()
+    }
+  }
+
+  const update = (changes: Partial<HistoryFilterValues>) => {
+    onChange({ ...filters, ...changes })
+  }
+
+  const renderSelect = (field: "company" | "industry" | "model" | "tag", label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select
+        value={filters[field] || ANY}
+        onValueChange={(value) => update({ [field]: value === ANY ? "" : value })}
+      >
+        <SelectTrigger className="h-8 bg-white text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options[field].map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={handleOpenChange} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search prompts and form data"
+            className="h-8 bg-white pl-8 text-sm"
+          />
+        </div>
+        <Select value={filters.sort} onValueChange={(value) => update({ sort: value as HistorySort })}>
+          <SelectTrigger className="h-8 w-36 bg-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-8">
+            Filters
+            <ChevronDown className={`h-4 w-4 transition-transform duration-200 ${
+              isOpen ? "rotate-180" : ""
+            }`} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up overflow-hidden">
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-white p-3 md:grid-cols-3">
+          {renderSelect("company", "Company")}
+          {renderSelect("industry", "Industry")}
+          {renderSelect("model", "Model")}
+          {renderSelect("tag", "Tag")}
+          <div className="space-y-1">
+            <Label htmlFor="history-from" className="text-xs">From</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => update({ from: e.target.value })}
+              className="h-8 bg-white text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to" className="text-xs">To</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => update({ to: e.target.value })}
+              className="h-8 bg-white text-xs"
+            />
+          </div>
+          <div className="flex items-end pb-2">
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={filters.pinnedOnly}
+                onChange={(e) => update({ pinnedOnly: e.target.checked })}
+                className="h-4 w-4 rounded border-input"
+              />
+              Pinned only
+            </label>
+          </div>
+        </div>
+      </CollapsibleContent>
+
+      {isFiltered && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{resultCount} matching {resultCount === 1 ? "prompt" : "prompts"}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange({ ...DEFAULT_HISTORY_FILTERS, sort: filters.sort })}
+          >
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </Collapsible>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { parseTags, type HistoryItemDetails, type PromptHistoryItem } from "@/lib/prompt-history"
+
+interface HistoryItemDetailsFormProps {
+  item: PromptHistoryItem
+  onSave: (details: HistoryItemDetails) => Promise<void>
+}
+
+export function HistoryItemDetailsForm({ item, onSave }: HistoryItemDetailsFormProps) {
+  const [title, setTitle] = useState(item.title ?? "")
+  const [tags, setTags] = useState((item.tags ?? []).join(", "))
+  const [notes, setNotes] = useState(item.notes ?? "")
+  const { toast } = useToast()
+
+  const isDirty = title !== (item.title ?? "")
+    || tags !== (item.tags ?? []).join(", ")
+    || notes !== (item.notes ?? "")
+
+  const handleSave = async () => {
+    try {
+      await onSave({
+        title: title.trim() || undefined,
+        tags: parseTags(tags),
+        notes: notes.trim() || undefined,
+      })
+      setTags(parseTags(tags).join(", "))
+      toast({
+        title: "Details Saved",
+        description: "Title, tags and notes have been updated",
+      })
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Save Failed",
+        description: "The details could not be saved to browser storage",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-3">
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor={`title-${item.id}`} className="text-xs">Title</Label>
+          <Input
+            id={`title-${item.id}`}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Comfort Care HVAC – after-hours v2"
+            className="h-8 bg-muted/50 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`tags-${item.id}`} className="text-xs">Tags</Label>
+          <Input
+            id={`tags-${item.id}`}
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Client, campaign, … (comma separated)"
+            className="h-8 bg-muted/50 text-sm"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`notes-${item.id}`} className="text-xs">Notes</Label>
+        <Textarea
+          id={`notes-${item.id}`}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="What worked, what to try next…"
+          className="min-h-16 bg-muted/50 text-sm"
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" size="sm" onClick={handleSave} disabled={!isDirty}>
+          Save details
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FAILURE_MODES, useMockCalendar, type BookingToolName, type FailureMode } from "@/lib/mock-calendar"
+
+const TOOL_NAMES: BookingToolName[] = ["check_availability", "book_appointment"]
+
+// Stored in this browser rather than with the prompt, like the API settings
+export function MockCalendarSettings() {
+  const settings = useMockCalendar(state => state.settings)
+  const loaded = useMockCalendar(state => state.loaded)
+  const load = useMockCalendar(state => state.load)
+  const updateSettings = useMockCalendar(state => state.updateSettings)
+  const [slotsText, setSlotsText] = useState("")
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    if (loaded) {
+      setSlotsText(settings.slots.join("\n"))
+    }
+  }, [loaded, settings.slots])
+
+  const saveSlots = () => {
+    updateSettings({ slots: slotsText.split("\n").map(slot => slot.trim()).filter(Boolean) })
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={settings.enabled}
+            onChange={(e) => updateSettings({ enabled: e.target.checked })}
+          />
+          Simulated calendar for test calls
+        </label>
+        <p className="text-[0.8rem] text-muted-foreground">
+          Gives test calls check_availability and book_appointment tools answered by this browser, so the booking and retry steps can be heard before going live.
+        </p>
+      </div>
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="mock-calendar-slots">Available slots</Label>
+            <Textarea
+              id="mock-calendar-slots"
+              rows={4}
+              className="bg-muted/50"
+              value={slotsText}
+              onChange={(e) => setSlotsText(e.target.value)}
+              onBlur={saveSlots}
+            />
+            <p className="text-[0.8rem] text-muted-foreground">
+              One per line. AM and PM slots answer morning and afternoon requests; booked slots stay taken until the call ends.
+            </p>
+          </div>
+          {TOOL_NAMES.map(name => (
+            <div key={name} className="space-y-2">
+              <Label className="font-mono text-xs">{name}</Label>
+              <Select
+                value={settings.failures[name]}
+                onValueChange={(value) => updateSettings({ failures: { ...settings.failures, [name]: value as FailureMode } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FAILURE_MODES.map(mode => (
+                    <SelectItem key={mode.id} value={mode.id}>
+                      {mode.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
-import { Copy, Trash2, RotateCcw, Phone, PhoneOff, Loader2 } from "lucide-react"
+import { Copy, Trash2, RotateCcw, Phone, PhoneOff, Mic, MicOff, Loader2, Square, Save, Trophy, RefreshCw, Pencil, GitCompare, Star, Download } from "lucide-react"
 import { useState, useCallback } from "react"
 import {
   Tooltip,
@@ -10,8 +10,20 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip"
-import { useCallState, type CallState } from "@/lib/call-state"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useCallState, type CallState, type CallContext } from "@/lib/call-state"
+import { EXPORT_FORMATS, exportPrompts, type ExportFormat, type ExportablePrompt } from "@/lib/prompt-export"
+import { VOICE_PLATFORMS, type VoicePlatformId } from "@/lib/voice-platforms"
 import { cn } from "@/lib/utils"
+import { CallTimer, VolumeMeter } from "./call-status"
 
 const baseButtonStyles = "h-8 w-8 p-0 rounded-full border shadow-sm bg-white"
 
@@ -51,9 +63,10 @@ function ActionButton({ onClick, className, children, tooltipContent }: ActionBu
 interface CopyButtonProps {
   text: string
   onCopy?: () => void
+  copiedMessage?: string
 }
 
-export function CopyButton({ text, onCopy }: CopyButtonProps) {
+export function CopyButton({ text, onCopy, copiedMessage = "Markdown prompt copied to clipboard" }: CopyButtonProps) {
   const { toast } = useToast()
 
   const handleCopy = useCallback((e: React.MouseEvent) => {
@@ -61,10 +74,10 @@ export function CopyButton({ text, onCopy }: CopyButtonProps) {
     navigator.clipboard.writeText(text)
     toast({
       title: "Copied!",
-      description: "Markdown prompt copied to clipboard",
+      description: copiedMessage,
     })
     onCopy?.()
-  }, [text, toast, onCopy])
+  }, [text, toast, onCopy, copiedMessage])
 
   return (
     <ActionButton
@@ -153,12 +166,281 @@ export function RestoreButton({ onRestore }: RestoreButtonProps) {
   )
 }
 
+interface StopButtonProps {
+  onStop: () => void
+}
+
+export function StopButton({ onStop }: StopButtonProps) {
+  const handleStop = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onStop()
+  }, [onStop])
+
+  return (
+    <ActionButton
+      onClick={handleStop}
+      className="text-muted-foreground hover:text-destructive hover:border-destructive"
+      tooltipContent="Stop generating"
+    >
+      <Square className="h-4 w-4" />
+      <span className="sr-only">Stop generating</span>
+    </ActionButton>
+  )
+}
+
+interface EditButtonProps {
+  onEdit: () => void
+}
+
+export function EditButton({ onEdit }: EditButtonProps) {
+  const handleEdit = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onEdit()
+  }, [onEdit])
+
+  return (
+    <ActionButton
+      onClick={handleEdit}
+      className="text-muted-foreground hover:text-primary hover:border-primary/50"
+      tooltipContent="Edit prompt"
+    >
+      <Pencil className="h-4 w-4" />
+      <span className="sr-only">Edit prompt</span>
+    </ActionButton>
+  )
+}
+
+interface CompareButtonProps {
+  selected: boolean
+  onToggle: () => void
+}
+
+export function CompareButton({ selected, onToggle }: CompareButtonProps) {
+  const handleToggle = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onToggle()
+  }, [onToggle])
+
+  return (
+    <ActionButton
+      onClick={handleToggle}
+      className={selected
+        ? "text-primary border-primary"
+        : "text-muted-foreground hover:text-primary hover:border-primary/50"}
+      tooltipContent={selected ? "Remove from comparison" : "Compare"}
+    >
+      <GitCompare className="h-4 w-4" />
+      <span className="sr-only">{selected ? "Remove from comparison" : "Compare"}</span>
+    </ActionButton>
+  )
+}
+
+interface PinButtonProps {
+  pinned: boolean
+  onToggle: () => void
+}
+
+export function PinButton({ pinned, onToggle }: PinButtonProps) {
+  const handleToggle = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onToggle()
+  }, [onToggle])
+
+  return (
+    <ActionButton
+      onClick={handleToggle}
+      className={pinned
+        ? "text-amber-500 border-amber-500/50"
+        : "text-muted-foreground hover:text-amber-500 hover:border-amber-500/50"}
+      tooltipContent={pinned ? "Unpin" : "Pin to top"}
+    >
+      <Star className={cn("h-4 w-4", pinned && "fill-current")} />
+      <span className="sr-only">{pinned ? "Unpin" : "Pin to top"}</span>
+    </ActionButton>
+  )
+}
+
+interface ExportButtonProps {
+  // Resolved when a format is picked, so bulk exports can load everything first
+  prompts: () => ExportablePrompt[] | Promise<ExportablePrompt[]>
+  // Adds voice agent config downloads for single prompts
+  onExportAgent?: (platformId: VoicePlatformId) => void
+  tooltipContent?: string
+}
+
+export function ExportButton({ prompts, onExportAgent, tooltipContent = "Export" }: ExportButtonProps) {
+  const [tooltipOpen, setTooltipOpen] = useState(false)
+  const [includeCover, setIncludeCover] = useState(true)
+  const { toast } = useToast()
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await exportPrompts(await prompts(), format, { includeCover })
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The file could not be created",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleExportAgent = (platformId: VoicePlatformId) => {
+    try {
+      onExportAgent?.(platformId)
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The config could not be created",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={() => setTooltipOpen(false)}>
+      <TooltipProvider>
+        <Tooltip open={tooltipOpen} onOpenChange={setTooltipOpen}>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => e.stopPropagation()}
+                className={`${baseButtonStyles} text-muted-foreground hover:text-primary hover:border-primary/50`}
+                onMouseEnter={() => setTooltipOpen(true)}
+                onMouseLeave={() => setTooltipOpen(false)}
+              >
+                <Download className="h-4 w-4" />
+                <span className="sr-only">{tooltipContent}</span>
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{tooltipContent}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.id} onSelect={() => handleExport(format.id)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeCover}
+          onCheckedChange={(checked) => setIncludeCover(checked === true)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Include cover
+        </DropdownMenuCheckboxItem>
+        {onExportAgent && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Voice agent config (.json)</DropdownMenuLabel>
+            {VOICE_PLATFORMS.map((platform) => (
+              <DropdownMenuItem key={platform.id} onSelect={() => handleExportAgent(platform.id)}>
+                <div className="flex flex-col">
+                  <span>{platform.name}</span>
+                  <span className="text-xs text-muted-foreground">{platform.target}</span>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+interface RegenerateButtonProps {
+  onRegenerate: () => void
+  tooltipContent?: string
+}
+
+export function RegenerateButton({ onRegenerate, tooltipContent = "Regenerate" }: RegenerateButtonProps) {
+  const handleRegenerate = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onRegenerate()
+  }, [onRegenerate])
+
+  return (
+    <ActionButton
+      onClick={handleRegenerate}
+      className="text-muted-foreground hover:text-primary hover:border-primary/50"
+      tooltipContent={tooltipContent}
+    >
+      <RefreshCw className="h-4 w-4" />
+      <span className="sr-only">{tooltipContent}</span>
+    </ActionButton>
+  )
+}
+
+interface SaveButtonProps {
+  onSave: () => void
+  tooltipContent?: string
+  savedMessage?: string
+}
+
+export function SaveButton({
+  onSave,
+  tooltipContent = "Save to history",
+  savedMessage = "Prompt added to history"
+}: SaveButtonProps) {
+  const { toast } = useToast()
+
+  const handleSave = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onSave()
+    toast({
+      title: "Saved",
+      description: savedMessage,
+    })
+  }, [onSave, savedMessage, toast])
+
+  return (
+    <ActionButton
+      onClick={handleSave}
+      className="text-muted-foreground hover:text-emerald-600 hover:border-emerald-600/50"
+      tooltipContent={tooltipContent}
+    >
+      <Save className="h-4 w-4" />
+      <span className="sr-only">{tooltipContent}</span>
+    </ActionButton>
+  )
+}
+
+interface PickButtonProps {
+  onPick: () => void
+}
+
+export function PickButton({ onPick }: PickButtonProps) {
+  const handlePick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    onPick()
+  }, [onPick])
+
+  return (
+    <ActionButton
+      onClick={handlePick}
+      className="text-muted-foreground hover:text-amber-500 hover:border-amber-500/50"
+      tooltipContent="Pick as winner"
+    >
+      <Trophy className="h-4 w-4" />
+      <span className="sr-only">Pick as winner</span>
+    </ActionButton>
+  )
+}
+
 interface CallButtonProps {
   buttonId: string
   onCall?: () => Promise<{
     apiKey: string,
     systemPrompt: string,
-    context: { assistantName: string; companyName: string }
+    context: CallContext
   }>;
 }
 
@@ -170,6 +452,9 @@ export function CallButton({ buttonId, onCall }: CallButtonProps) {
   const activeButtonId = useCallState(state => state.activeButtonId)
   const initiateCall = useCallState(state => state.initiateCall)
   const endCall = useCallState(state => state.endCall)
+  const muted = useCallState(state => state.muted)
+  const setMuted = useCallState(state => state.setMuted)
+  const inputVolume = useCallState(state => state.inputVolume)
 
   const isThisButtonActive = activeButtonId === buttonId
   const canInteract = callState === 'idle' || (callState === 'error' && isThisButtonActive) || (callState === 'active' && isThisButtonActive)
@@ -246,27 +531,54 @@ export function CallButton({ buttonId, onCall }: CallButtonProps) {
     }
   }
 
+  const handleToggleMute = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    setMuted(!muted)
+  }, [muted, setMuted])
+
+  const callControls = callState === 'active' && isThisButtonActive && (
+    <>
+      <span className="flex h-8 items-center gap-1.5 rounded-full border bg-white px-2.5 text-xs text-muted-foreground shadow-sm">
+        <CallTimer />
+        <VolumeMeter level={muted ? 0 : inputVolume} />
+      </span>
+      <ActionButton
+        onClick={handleToggleMute}
+        className={muted
+          ? "text-destructive border-destructive/50"
+          : "text-muted-foreground hover:text-primary hover:border-primary/50"}
+        tooltipContent={muted ? "Unmute microphone" : "Mute microphone"}
+      >
+        {muted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+        <span className="sr-only">{muted ? "Unmute microphone" : "Mute microphone"}</span>
+      </ActionButton>
+    </>
+  )
+
   return (
-    <TooltipProvider>
-      <Tooltip open={tooltipOpen} onOpenChange={setTooltipOpen}>
-        <TooltipTrigger asChild>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleToggleCall}
-            className={cn(baseButtonStyles, getButtonStyles())}
-            onMouseEnter={() => setTooltipOpen(true)}
-            onMouseLeave={() => setTooltipOpen(false)}
-            disabled={callState === 'connecting' || (callState !== 'idle' && !isThisButtonActive)}
-          >
-            {getButtonContent()}
-            <span className="sr-only">{getTooltipContent()}</span>
-          </Button>
-        </TooltipTrigger>
-        <TooltipContent>
-          <p>{getTooltipContent()}</p>
-        </TooltipContent>
-      </Tooltip>
-    </TooltipProvider>
+    <>
+      {callControls}
+      <TooltipProvider>
+        <Tooltip open={tooltipOpen} onOpenChange={setTooltipOpen}>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleToggleCall}
+              className={cn(baseButtonStyles, getButtonStyles())}
+              onMouseEnter={() => setTooltipOpen(true)}
+              onMouseLeave={() => setTooltipOpen(false)}
+              disabled={callState === 'connecting' || (callState !== 'idle' && !isThisButtonActive)}
+            >
+              {getButtonContent()}
+              <span className="sr-only">{getTooltipContent()}</span>
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{getTooltipContent()}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </>
   )
 }
@@ -1,16 +1,28 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { PromptForm } from "@/components/prompt-form"
-import { type FormValues, type ApiKeyValues } from "@/components/prompt-form"
-import { generateSalesPrompt } from "@/lib/openai"
+import { type FormValues, type ApiKeyValues, getVariantLabel } from "@/components/prompt-form"
+import { generateSalesPrompt, refineSalesPrompt, regeneratePromptSection, type RefinementTurn } from "@/lib/openai"
+import { parsePromptSections, replacePromptSection } from "@/lib/prompt-sections"
+import { type PromptRevision } from "@/lib/prompt-history"
+import { getMissingProviderField } from "@/lib/providers"
+import { useTemplateLibrary } from "@/lib/templates"
 import { GeneratedPrompt } from "@/components/generated-prompt"
+import { type PromptVariant } from "@/components/variant-comparison"
 
 const STORAGE_KEY = "sales-prompt-result"
 
 export function PromptContainer() {
   const [isLoading, setIsLoading] = useState(false)
+  const [isPartial, setIsPartial] = useState(false)
   const [result, setResult] = useState<string | null>(null)
+  const [variants, setVariants] = useState<PromptVariant[]>([])
+  const [revision, setRevision] = useState<PromptRevision | null>(null)
+  const [regeneratingSection, setRegeneratingSection] = useState<number | null>(null)
+  // The refinement conversation for the current prompt, replayed on every new instruction
+  const [refinement, setRefinement] = useState<{ original: string; turns: RefinementTurn[] } | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [currentFormData, setCurrentFormData] = useState<(FormValues & ApiKeyValues) | null>(null)
   const formRef = useRef<HTMLDivElement>(null)
   const [formHeight, setFormHeight] = useState<number>(0)
@@ -70,34 +82,219 @@ export function PromptContainer() {
     }
   }, [result])
 
+  const updateVariant = (id: string, changes: Partial<PromptVariant>) => {
+    setVariants(prev => prev.map(variant => variant.id === id ? { ...variant, ...changes } : variant))
+  }
+
+  // Runs every variant in parallel; each column streams and finishes independently
+  const generateVariants = async (values: FormValues & ApiKeyValues, abortController: AbortController) => {
+    const template = useTemplateLibrary.getState().getTemplate(values.templateId)
+    const runs: PromptVariant[] = values.variants.map((variant, index) => ({
+      id: Math.random().toString(36).substring(7),
+      label: getVariantLabel(index),
+      model: variant.model,
+      temperature: variant.temperature,
+      content: "",
+      status: "generating",
+    }))
+    setVariants(runs)
+
+    await Promise.all(runs.map(async (run) => {
+      try {
+        const content = await generateSalesPrompt(
+          { ...values, model: run.model, temperature: run.temperature },
+          template,
+          {
+            signal: abortController.signal,
+            onToken: values.stream ? (_, content) => updateVariant(run.id, { content }) : undefined,
+          }
+        )
+        updateVariant(run.id, { content, status: abortController.signal.aborted ? "stopped" : "done" })
+      } catch (error) {
+        console.error(error)
+        updateVariant(run.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to generate prompt",
+        })
+      }
+    }))
+  }
+
   const handleSubmit = async (values: FormValues & ApiKeyValues) => {
-    if (!values.apiKey) {
+    if (getMissingProviderField(values)) {
       return false
     }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
     setIsLoading(true)
+    setIsPartial(false)
     setCurrentFormData(values)
+    setVariants([])
+    setRevision(null)
+    setRefinement(null)
+    const previousResult = result
+    setResult(null)
+    try {
+      if (values.variants.length > 1) {
+        await generateVariants(values, abortController)
+        return
+      }
+
+      const template = useTemplateLibrary.getState().getTemplate(values.templateId)
+      const prompt = await generateSalesPrompt(values, template, {
+        signal: abortController.signal,
+        onToken: values.stream ? (_, content) => setResult(content) : undefined,
+      })
+      if (abortController.signal.aborted) {
+        // Keep the partial text on screen, but out of history until the user keeps it
+        setIsPartial(!!prompt)
+        setResult(prompt || null)
+      } else {
+        setResult(prompt)
+      }
+    } catch (error) {
+      console.error(error)
+      setResult(previousResult)
+    } finally {
+      abortControllerRef.current = null
+      setIsLoading(false)
+    }
+  }
+
+  const handleRefine = async (instruction: string) => {
+    if (!result || !currentFormData || getMissingProviderField(currentFormData)) {
+      return false
+    }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const previousResult = result
+    const previousRefinement = refinement
+    const original = refinement?.original ?? result
+    const turns = [...(refinement?.turns ?? []), { instruction, content: "" }]
+
+    setIsLoading(true)
+    setIsPartial(false)
+    setRefinement({ original, turns })
+    setRevision({ parentContent: previousResult, note: instruction })
+    setResult(null)
     try {
-      const prompt = await generateSalesPrompt(values)
+      const prompt = await refineSalesPrompt(currentFormData, original, turns, {
+        signal: abortController.signal,
+        onToken: currentFormData.stream ? (_, content) => setResult(content) : undefined,
+      })
+      if (abortController.signal.aborted && !prompt) {
+        throw new Error("Refinement stopped before any text was generated")
+      }
+      setIsPartial(abortController.signal.aborted)
       setResult(prompt)
+      setRefinement({ original, turns: [...turns.slice(0, -1), { instruction, content: prompt }] })
+      return true
     } catch (error) {
       console.error(error)
+      setResult(previousResult)
+      setRefinement(previousRefinement)
+      setRevision(null)
+      return abortController.signal.aborted
     } finally {
+      abortControllerRef.current = null
       setIsLoading(false)
     }
   }
 
+  // Streams the new section into place, leaving the rest of the prompt untouched
+  const handleRegenerateSection = async (index: number) => {
+    const title = result ? parsePromptSections(result)[index]?.title : null
+    if (!result || !title || !currentFormData || getMissingProviderField(currentFormData)) {
+      return false
+    }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const previousResult = result
+
+    setIsLoading(true)
+    setIsPartial(false)
+    setRegeneratingSection(index)
+    setRevision({ parentContent: previousResult, note: `Regenerated ${title}` })
+    try {
+      const template = useTemplateLibrary.getState().getTemplate(currentFormData.templateId)
+      const section = await regeneratePromptSection(currentFormData, template, previousResult, title, {
+        signal: abortController.signal,
+        onToken: currentFormData.stream
+          ? (_, content) => setResult(replacePromptSection(previousResult, index, content))
+          : undefined,
+      })
+      if (abortController.signal.aborted && !section) {
+        throw new Error("Regeneration stopped before any text was generated")
+      }
+      setIsPartial(abortController.signal.aborted)
+      setResult(replacePromptSection(previousResult, index, section))
+      // The refinement conversation no longer describes the prompt on screen
+      setRefinement(null)
+      return true
+    } catch (error) {
+      console.error(error)
+      setResult(previousResult)
+      setRevision(null)
+      return abortController.signal.aborted
+    } finally {
+      abortControllerRef.current = null
+      setRegeneratingSection(null)
+      setIsLoading(false)
+    }
+  }
+
+  // Manual edits become a new version of the prompt they were made to
+  const handleSaveEdit = (content: string) => {
+    if (!result || content === result) {
+      return
+    }
+    setIsPartial(false)
+    setRevision({ parentContent: result, note: "Edited manually" })
+    setRefinement(null)
+    setResult(content)
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleKeepPartial = () => {
+    setIsPartial(false)
+  }
+
   const handleRestoreFormData = (formData: FormValues & ApiKeyValues | null) => {
     if (formData) {
       setCurrentFormData(formData)
     }
   }
 
-  const handleRestorePrompt = (prompt: string) => {
+  // Stable so the saved prompt is only restored once on mount, not on every streamed token
+  const handleRestorePrompt = useCallback((prompt: string) => {
+    setIsPartial(false)
+    setVariants([])
+    setRevision(null)
+    setRefinement(null)
     setResult(prompt)
-  }
+  }, [])
 
-  const handleClearPrompt = () => {
+  const handleClearPrompt = useCallback(() => {
+    setIsPartial(false)
+    setRevision(null)
+    setRefinement(null)
     setResult(null);
+  }, [])
+
+  // The winning variant becomes the current prompt; it is already saved to history by then
+  const handlePickVariant = (variant: PromptVariant) => {
+    setVariants([])
+    setIsPartial(false)
+    setRevision(null)
+    setRefinement(null)
+    setResult(variant.content)
+  }
+
+  const handleDiscardVariants = () => {
+    setVariants([])
   }
 
   return (
@@ -114,10 +311,22 @@ export function PromptContainer() {
         <GeneratedPrompt 
           prompt={result} 
           isLoading={isLoading}
+          isPartial={isPartial}
+          variants={variants}
+          revision={revision}
+          refinementTurns={refinement?.turns ?? []}
+          regeneratingSection={regeneratingSection}
           currentFormData={currentFormData}
           onRestoreFormData={handleRestoreFormData}
           onRestorePrompt={handleRestorePrompt}
           onClearPrompt={handleClearPrompt}
+          onStop={handleStop}
+          onKeepPartial={handleKeepPartial}
+          onRefine={handleRefine}
+          onRegenerateSection={handleRegenerateSection}
+          onSaveEdit={handleSaveEdit}
+          onPickVariant={handlePickVariant}
+          onDiscardVariants={handleDiscardVariants}
           containerHeight={formHeight}
         />
       </div>
@@ -0,0 +1,72 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { diffText, type DiffMode } from "@/lib/diff"
+import { type PromptHistoryItem } from "@/lib/prompt-history"
+import { cn } from "@/lib/utils"
+
+interface PromptDiffProps {
+  before: PromptHistoryItem
+  after: PromptHistoryItem
+  beforeLabel: string
+  afterLabel: string
+  onClose: () => void
+}
+
+const PART_STYLES = {
+  equal: "",
+  added: "bg-green-100 text-green-900",
+  removed: "bg-red-100 text-red-900 line-through",
+}
+
+export function PromptDiff({ before, after, beforeLabel, afterLabel, onClose }: PromptDiffProps) {
+  const [mode, setMode] = useState<DiffMode>("line")
+  const parts = useMemo(() => diffText(before.content, after.content, mode), [before.content, after.content, mode])
+
+  const count = (type: "added" | "removed") => parts
+    .filter(part => part.type === type)
+    .reduce((total, part) => total + (mode === "line"
+      ? part.value.split(/(?<=\n)/).length
+      : part.value.split(/\s+/).filter(Boolean).length), 0)
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0 text-sm">
+          <span className="font-medium">{beforeLabel}</span>
+          <span className="text-muted-foreground"> → </span>
+          <span className="font-medium">{afterLabel}</span>
+          <span className="ml-2 text-xs text-green-700">+{count("added")}</span>
+          <span className="ml-1 text-xs text-red-700">−{count("removed")}</span>
+          <span className="ml-1 text-xs text-muted-foreground">{mode === "line" ? "lines" : "words"}</span>
+        </div>
+        <div className="flex flex-none items-center gap-1">
+          {(["line", "word"] as const).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              variant={mode === option ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMode(option)}
+            >
+              {option === "line" ? "Lines" : "Words"}
+            </Button>
+          ))}
+          <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Close comparison</span>
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-96 overflow-auto rounded-md border bg-muted/30 p-3 font-mono text-xs whitespace-pre-wrap">
+        {parts.map((part, index) => (
+          <span key={index} className={cn(PART_STYLES[part.type], mode === "line" && part.type !== "equal" && "block")}>
+            {part.value}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useState } from "react"
+import ReactMarkdown from "react-markdown"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+
+interface PromptEditorProps {
+  initialValue: string
+  onSave: (value: string) => void
+  onCancel: () => void
+  maxHeight?: number
+}
+
+export function PromptEditor({ initialValue, onSave, onCancel, maxHeight }: PromptEditorProps) {
+  const [draft, setDraft] = useState(initialValue)
+  const isDirty = draft !== initialValue
+  const height = maxHeight ? `${maxHeight}px` : undefined
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white/50 p-4">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="min-h-64 resize-none bg-white font-mono text-xs md:text-xs"
+          style={{ height }}
+          aria-label="Prompt markdown"
+          autoFocus
+        />
+        <div
+          className="prose prose-sm max-w-none overflow-auto rounded-md border bg-white p-3 dark:prose-invert"
+          style={{ height }}
+          aria-label="Preview"
+        >
+          <ReactMarkdown>{draft}</ReactMarkdown>
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={() => onSave(draft)} disabled={!isDirty || !draft.trim()}>
+          Save as new version
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 "use client"
 
-import { useEffect, useState, useMemo } from "react"
+import { useEffect, useState, useMemo, forwardRef } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { useForm } from "react-hook-form"
+import { useForm, useFieldArray } from "react-hook-form"
 import * as z from "zod"
 import { Button } from "@/components/ui/button"
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -36,9 +37,31 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip"
+import { PROVIDERS, DEFAULT_PROVIDER, getProvider, getMissingProviderField, type LLMProvider } from "@/lib/providers"
+import { METHODOLOGIES, DEFAULT_METHODOLOGY } from "@/lib/methodologies"
+import { CALL_DIRECTIONS, DEFAULT_CALL_DIRECTION } from "@/lib/call-directions"
+import { useTemplateLibrary, BUILT_IN_TEMPLATE_ID } from "@/lib/templates"
+import { voiceSettingsSchema, DEFAULT_VOICE_SETTINGS } from "@/lib/voice-settings"
+import { VoiceCallSettings } from "./voice-call-settings"
+
+const MAX_VARIANTS = 4
+const DEFAULT_TEMPERATURE = 0.7
+
+const variantSchema = z.object({
+  model: z.string().min(1, "Model is required"),
+  temperature: z.number().min(0, "Min 0").max(2, "Max 2"),
+})
 
 const formSchema = z.object({
+  provider: z.string().min(1, "Provider selection is required"),
   model: z.string().min(1, "Model selection is required"),
+  temperature: z.number().min(0, "Temperature must be at least 0").max(2, "Temperature must be at most 2"),
+  stream: z.boolean(),
+  // Two or more entries generate variants side by side; otherwise a single prompt is generated
+  variants: z.array(variantSchema).max(MAX_VARIANTS),
+  templateId: z.string().min(1, "Template selection is required"),
+  methodology: z.string().min(1, "Sales methodology is required"),
+  callDirection: z.string().min(1, "Call direction is required"),
   aiName: z.string().min(1, "AI name is required"),
   companyName: z.string().min(1, "Company name is required"),
   industry: z.string().min(1, "Industry is required"),
@@ -48,14 +71,24 @@ const formSchema = z.object({
   objective: z.string().min(1, "Call objective is required"),
   objections: z.string().min(1, "Common objections are required"),
   additionalInfo: z.string().optional(),
+  // Voice, transcriber and model for test calls, kept with history items so replays sound the same
+  voice: voiceSettingsSchema,
 })
 
+// Which of these are required depends on the selected provider, see getMissingProviderField
 const apiKeySchema = z.object({
-  apiKey: z.string().min(1, "OpenAI API key is required"),
+  apiKey: z.string().optional(),
   vapiKey: z.string().optional(),
+  anthropicKey: z.string().optional(),
+  azureKey: z.string().optional(),
+  azureEndpoint: z.string().optional(),
+  googleKey: z.string().optional(),
+  compatibleKey: z.string().optional(),
+  compatibleBaseUrl: z.string().optional(),
 })
 
 export type FormValues = z.infer<typeof formSchema>;
+export type VariantValues = z.infer<typeof variantSchema>;
 export type ApiKeyValues = z.infer<typeof apiKeySchema>;
 
 interface PromptFormProps {
@@ -70,15 +103,149 @@ const DELETED_DATA_KEY = "sales-prompt-form-deleted"
 const UNDO_STATE_KEY = "sales-prompt-form-can-undo"
 const API_SECTION_STATE_KEY = "sales-prompt-form-api-section"
 
+// API configuration is persisted under its own keys rather than with the form data
+const API_KEY_STORAGE_KEYS: Record<keyof ApiKeyValues, string> = {
+  apiKey: "openai-api-key",
+  vapiKey: "vapi-api-key",
+  anthropicKey: "anthropic-api-key",
+  azureKey: "azure-openai-api-key",
+  azureEndpoint: "azure-openai-endpoint",
+  googleKey: "google-api-key",
+  compatibleKey: "compatible-api-key",
+  compatibleBaseUrl: "compatible-base-url",
+}
+
+const API_KEY_FIELDS = Object.keys(API_KEY_STORAGE_KEYS) as (keyof ApiKeyValues)[]
+
+export function pickApiKeyValues(values: Partial<ApiKeyValues> | null | undefined): ApiKeyValues {
+  return Object.fromEntries(
+    API_KEY_FIELDS.map(field => [field, values?.[field] || ""])
+  ) as ApiKeyValues
+}
+
+const DEFAULT_VALUES: FormValues & ApiKeyValues = {
+  provider: DEFAULT_PROVIDER,
+  model: getProvider(DEFAULT_PROVIDER).models[0],
+  temperature: DEFAULT_TEMPERATURE,
+  stream: true,
+  variants: [],
+  templateId: BUILT_IN_TEMPLATE_ID,
+  methodology: DEFAULT_METHODOLOGY,
+  callDirection: DEFAULT_CALL_DIRECTION,
+  ...pickApiKeyValues(null),
+  aiName: "",
+  companyName: "",
+  industry: "",
+  targetAudience: "",
+  challenges: "",
+  product: "",
+  objective: "",
+  objections: "",
+  additionalInfo: "",
+  voice: DEFAULT_VOICE_SETTINGS,
+}
+
+// The schema allows up to 2, but some providers accept less; variants run on the form's provider
+function checkTemperatures(values: FormValues, ctx: z.RefinementCtx) {
+  const provider = getProvider(values.provider)
+  const check = (temperature: number, path: (string | number)[]) => {
+    if (temperature > provider.maxTemperature) {
+      ctx.addIssue({ code: "custom", path, message: `Max ${provider.maxTemperature} for ${provider.name}` })
+    }
+  }
+  check(values.temperature, ["temperature"])
+  values.variants.forEach((variant, index) => check(variant.temperature, ["variants", index, "temperature"]))
+}
+
+const FORM_FIELDS = Object.keys(formSchema.shape) as (keyof FormValues)[]
+
+// Strips API configuration and fills fields missing from older saved data
+export function pickFormValues(values: Partial<FormValues> | null | undefined): FormValues {
+  return Object.fromEntries(
+    FORM_FIELDS.map(field => [field, values?.[field] ?? DEFAULT_VALUES[field]])
+  ) as FormValues
+}
+
+export function getVariantLabel(index: number) {
+  return String.fromCharCode(65 + index)
+}
+
+interface ModelPickerProps {
+  provider: LLMProvider
+  value: string
+  onChange: (value: string) => void
+}
+
+function ModelPicker({ provider, value, onChange }: ModelPickerProps) {
+  if (provider.customModels) {
+    return (
+      <>
+        <FormControl>
+          <Input
+            list={`${provider.id}-models`}
+            placeholder="Model name"
+            className="bg-muted/50"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </FormControl>
+        <datalist id={`${provider.id}-models`}>
+          {provider.models.map((model) => (
+            <option key={model} value={model} />
+          ))}
+        </datalist>
+      </>
+    )
+  }
+
+  return (
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a model" />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {provider.models.map((model) => (
+          <SelectItem key={model} value={model}>
+            {model}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+const TemperatureInput = forwardRef<
+  HTMLInputElement,
+  { value: number; onChange: (value: number) => void; max: number }
+>(({ value, onChange, max, ...props }, ref) => (
+  <Input
+    ref={ref}
+    type="number"
+    step={0.1}
+    min={0}
+    max={max}
+    className="bg-muted/50"
+    value={Number.isNaN(value) ? "" : value}
+    onChange={(e) => onChange(e.target.valueAsNumber)}
+    {...props}
+  />
+))
+TemperatureInput.displayName = "TemperatureInput"
+
 export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFormDataLoad }: PromptFormProps) {
   const [mounted, setMounted] = useState(false)
-  const [models] = useState([
-    { id: "gpt-4o-mini" },
-    { id: "gpt-4o" }
-  ])
   const [canUndo, setCanUndo] = useState(false)
   const [isApiOpen, setIsApiOpen] = useState(true)
   const { toast } = useToast()
+  const templates = useTemplateLibrary(state => state.templates)
+  const templatesLoaded = useTemplateLibrary(state => state.loaded)
+  const loadTemplates = useTemplateLibrary(state => state.load)
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
 
   // Load API section state from localStorage
   useEffect(() => {
@@ -97,29 +264,26 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
   }, [isApiOpen, mounted])
 
   const form = useForm<FormValues & ApiKeyValues>({
-    resolver: zodResolver(z.intersection(formSchema, apiKeySchema)),
-    defaultValues: {
-      model: "gpt-4o-mini",
-      apiKey: "",
-      vapiKey: "",
-      aiName: "",
-      companyName: "",
-      industry: "",
-      targetAudience: "",
-      challenges: "",
-      product: "",
-      objective: "",
-      objections: "",
-      additionalInfo: "",
-    },
+    resolver: zodResolver(z.intersection(formSchema, apiKeySchema).superRefine(checkTemperatures)),
+    defaultValues: DEFAULT_VALUES,
   })
-  const watchedApiKey = form.watch("apiKey")
-  const watchedVapiKey = form.watch("vapiKey")
+  const watchedProvider = form.watch("provider")
+  // Joined so the notify effect below only re-runs when a value actually changes
+  const watchedApiKeys = form.watch(API_KEY_FIELDS).join("\n")
+  const watchedVoice = JSON.stringify(form.watch("voice"))
+  const provider = getProvider(watchedProvider)
+  const variantFields = useFieldArray({ control: form.control, name: "variants" })
+  const watchedTemplateId = form.watch("templateId")
+
+  // Fall back to the built-in template if the selected one was deleted from the library
+  useEffect(() => {
+    if (mounted && templatesLoaded && !templates.some(template => template.id === watchedTemplateId)) {
+      form.setValue("templateId", BUILT_IN_TEMPLATE_ID)
+    }
+  }, [mounted, templatesLoaded, templates, watchedTemplateId, form])
 
   // Load saved form data from localStorage
   useEffect(() => {
-    const savedApiKey = localStorage.getItem("openai-api-key")
-    const savedVapiKey = localStorage.getItem("vapi-api-key")
     const savedFormData = localStorage.getItem(STORAGE_KEY)
     const canUndoState = localStorage.getItem(UNDO_STATE_KEY) === "true"
     
@@ -128,19 +292,18 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
     if (savedFormData) {
       const parsedData = JSON.parse(savedFormData)
       Object.entries(parsedData).forEach(([key, value]) => {
-        if (key !== "apiKey" && key !== "vapiKey") {
-          form.setValue(key as keyof (FormValues & ApiKeyValues), value as string)
+        if (!(key in API_KEY_STORAGE_KEYS)) {
+          form.setValue(key as keyof FormValues, value as FormValues[keyof FormValues])
         }
       })
     }
     
-    if (savedApiKey) {
-      form.setValue("apiKey", savedApiKey)
-    }
-    
-    if (savedVapiKey) {
-      form.setValue("vapiKey", savedVapiKey)
-    }
+    API_KEY_FIELDS.forEach((field) => {
+      const savedValue = localStorage.getItem(API_KEY_STORAGE_KEYS[field])
+      if (savedValue) {
+        form.setValue(field, savedValue)
+      }
+    })
     
     setMounted(true)
     
@@ -150,13 +313,13 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
     }
   }, [form, onFormDataLoad])
 
-  // Watch for API keys changes and notify parent
+  // Watch for API key and voice changes and notify parent, so test calls use them straight away
   useEffect(() => {
     if (mounted) {
       const formData = form.getValues()
       onFormDataLoad?.(formData)
     }
-  }, [mounted, watchedApiKey, watchedVapiKey, form, onFormDataLoad])
+  }, [mounted, watchedApiKeys, watchedVoice, form, onFormDataLoad])
 
   // Debounced save function
   const debouncedSave = useMemo(
@@ -168,34 +331,21 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
         }
         timeoutId = setTimeout(() => {
           const dataToSave = {
-            model: formData.model,
-            aiName: formData.aiName,
-            companyName: formData.companyName,
-            industry: formData.industry,
-            targetAudience: formData.targetAudience,
-            challenges: formData.challenges,
-            product: formData.product,
-            objective: formData.objective,
-            objections: formData.objections,
-            additionalInfo: formData.additionalInfo,
+            ...pickFormValues(formData),
             apiKey: formData.apiKey,
             vapiKey: formData.vapiKey
           }
           localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToSave))
           
-          // Handle OpenAI API key
-          if (formData.apiKey) {
-            localStorage.setItem("openai-api-key", formData.apiKey)
-          } else {
-            localStorage.removeItem("openai-api-key")
-          }
-          
-          // Handle VAPI API key
-          if (formData.vapiKey) {
-            localStorage.setItem("vapi-api-key", formData.vapiKey)
-          } else {
-            localStorage.removeItem("vapi-api-key")
-          }
+          // Handle API keys and endpoints
+          API_KEY_FIELDS.forEach((field) => {
+            const value = formData[field]
+            if (value) {
+              localStorage.setItem(API_KEY_STORAGE_KEYS[field], value)
+            } else {
+              localStorage.removeItem(API_KEY_STORAGE_KEYS[field])
+            }
+          })
           
           timeoutId = null;
         }, 300);
@@ -209,16 +359,7 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
     if (mounted) {
       const formData = form.getValues()
       const formDataToSave = {
-        model: formData.model,
-        aiName: formData.aiName,
-        companyName: formData.companyName,
-        industry: formData.industry,
-        targetAudience: formData.targetAudience,
-        challenges: formData.challenges,
-        product: formData.product,
-        objective: formData.objective,
-        objections: formData.objections,
-        additionalInfo: formData.additionalInfo,
+        ...pickFormValues(formData),
         apiKey: formData.apiKey,
         vapiKey: formData.vapiKey
       }
@@ -237,16 +378,13 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
   useEffect(() => {
     if (restoredFormData && mounted) {
       // Get current API keys before reset
-      const currentApiKeys = {
-        apiKey: form.getValues("apiKey"),
-        vapiKey: form.getValues("vapiKey")
-      };
+      const currentApiKeys = pickApiKeyValues(form.getValues());
 
-      // Merge restored data with current API keys
+      // Merge restored data with current API keys, filling fields older history items lack
       const mergedData = {
+        ...DEFAULT_VALUES,
         ...restoredFormData,
-        apiKey: currentApiKeys.apiKey,
-        vapiKey: currentApiKeys.vapiKey
+        ...currentApiKeys
       };
 
       // Reset form and save to localStorage
@@ -273,18 +411,8 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
         
         // Ensure we have all the required fields
         const restoredData = {
-          model: parsedData.model || "gpt-4o-mini",
-          apiKey: form.getValues("apiKey"), // Keep current API key
-          vapiKey: form.getValues("vapiKey"), // Keep current VAPI key
-          aiName: parsedData.aiName || "",
-          companyName: parsedData.companyName || "",
-          industry: parsedData.industry || "",
-          targetAudience: parsedData.targetAudience || "",
-          challenges: parsedData.challenges || "",
-          product: parsedData.product || "",
-          objective: parsedData.objective || "",
-          objections: parsedData.objections || "",
-          additionalInfo: parsedData.additionalInfo || ""
+          ...pickFormValues(parsedData),
+          ...pickApiKeyValues(form.getValues()), // Keep current API keys
         }
         
         // Reset form with complete data
@@ -305,36 +433,15 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
       // Store the current data before clearing
       const currentFormData = form.getValues()
       const dataToStore = {
-        model: currentFormData.model,
-        aiName: currentFormData.aiName,
-        companyName: currentFormData.companyName,
-        industry: currentFormData.industry,
-        targetAudience: currentFormData.targetAudience,
-        challenges: currentFormData.challenges,
-        product: currentFormData.product,
-        objective: currentFormData.objective,
-        objections: currentFormData.objections,
-        additionalInfo: currentFormData.additionalInfo,
+        ...pickFormValues(currentFormData),
         apiKey: "",
         vapiKey: ""
       }
       localStorage.setItem(DELETED_DATA_KEY, JSON.stringify(dataToStore))
       
-      const apiKey = form.getValues("apiKey")
-      const vapiKey = form.getValues("vapiKey")
       form.reset({
-        model: "gpt-4o-mini",
-        apiKey,
-        vapiKey,
-        aiName: "",
-        companyName: "",
-        industry: "",
-        targetAudience: "",
-        challenges: "",
-        product: "",
-        objective: "",
-        objections: "",
-        additionalInfo: "",
+        ...DEFAULT_VALUES,
+        ...pickApiKeyValues(form.getValues()),
       })
       localStorage.removeItem(STORAGE_KEY)
       setCanUndo(true)
@@ -396,25 +503,34 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
               </div>
             </div>
             <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up overflow-hidden">
-              <div className="flex gap-4 bg-background p-0.5">
-                <FormField
-                  control={form.control}
-                  name="apiKey"
-                  render={({ field }) => (
-                    <FormItem className="flex-1">
-                      <FormLabel>OpenAI API Key</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="sk-..." className="bg-muted/50" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <div className="flex flex-wrap gap-4 bg-background p-0.5">
+                {provider.fields.map((providerField) => (
+                  <FormField
+                    key={providerField.name}
+                    control={form.control}
+                    name={providerField.name}
+                    render={({ field }) => (
+                      <FormItem className="flex-1 min-w-[200px]">
+                        <FormLabel>{providerField.label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type={providerField.secret ? "password" : "text"}
+                            placeholder={providerField.placeholder}
+                            className="bg-muted/50"
+                            {...field}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
                 <FormField
                   control={form.control}
                   name="vapiKey"
                   render={({ field }) => (
-                    <FormItem className="flex-1">
+                    <FormItem className="flex-1 min-w-[200px]">
                       <FormLabel>VAPI API Key</FormLabel>
                       <FormControl>
                         <Input type="password" placeholder="vapi-..." className="bg-muted/50" {...field} />
@@ -430,26 +546,225 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
           <Separator className="my-4" />
 
           <div className="flex items-end gap-2">
+            <FormField
+              control={form.control}
+              name="provider"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Provider</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value)
+                      // Each provider has its own model list, so start from its default
+                      form.setValue("model", getProvider(value).models[0])
+                      form.setValue("variants", form.getValues("variants").map(variant => ({
+                        ...variant,
+                        model: getProvider(value).models[0],
+                      })))
+                    }}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a provider" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROVIDERS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="model"
               render={({ field }) => (
                 <FormItem className="flex-1">
-                  <FormLabel>Model</FormLabel>
+                  <FormLabel>{provider.id === "azure" ? "Deployment" : "Model"}</FormLabel>
+                  <ModelPicker provider={provider} value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="temperature"
+              render={({ field }) => (
+                <FormItem className="w-24">
+                  <FormLabel>Temperature</FormLabel>
+                  <FormControl>
+                    <TemperatureInput value={field.value} onChange={field.onChange} max={provider.maxTemperature} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="stream"
+              render={({ field }) => (
+                <FormItem className="flex h-10 items-center gap-2 space-y-0">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">Stream output</FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <span className="text-sm font-medium">Variants</span>
+                <p className="text-[0.8rem] text-muted-foreground">
+                  Generate several versions side by side to compare them
+                </p>
+              </div>
+              <Select
+                value={String(Math.max(variantFields.fields.length, 1))}
+                onValueChange={(value) => {
+                  const count = Number(value)
+                  if (count === 1) {
+                    variantFields.replace([])
+                    return
+                  }
+                  const { model, temperature } = form.getValues()
+                  const current = form.getValues("variants")
+                  variantFields.replace(
+                    Array.from({ length: count }, (_, index) => current[index] ?? { model, temperature })
+                  )
+                }}
+              >
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_VARIANTS }, (_, index) => (
+                    <SelectItem key={index} value={String(index + 1)}>
+                      {index + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {variantFields.fields.map((variantField, index) => (
+              <div key={variantField.id} className="flex items-end gap-2">
+                <span className="flex h-9 w-6 items-center text-sm font-medium text-muted-foreground">
+                  {getVariantLabel(index)}
+                </span>
+                <FormField
+                  control={form.control}
+                  name={`variants.${index}.model`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <ModelPicker provider={provider} value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`variants.${index}.temperature`}
+                  render={({ field }) => (
+                    <FormItem className="w-24">
+                      <FormControl>
+                        <TemperatureInput value={field.value} onChange={field.onChange} max={provider.maxTemperature} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={form.control}
+              name="templateId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a template" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name} v{template.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="callDirection"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Call Direction</FormLabel>
                   <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select a model" />
+                        <SelectValue placeholder="Select a call direction" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {models.map((model) => (
-                        <SelectItem key={model.id} value={model.id}>
-                          {model.id}
+                      {CALL_DIRECTIONS.map((direction) => (
+                        <SelectItem key={direction.id} value={direction.id}>
+                          {direction.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  <FormDescription>
+                    {CALL_DIRECTIONS.find(direction => direction.id === field.value)?.description}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="methodology"
+              render={({ field }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel>Sales Methodology</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a methodology" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {METHODOLOGIES.map((methodology) => (
+                        <SelectItem key={methodology.id} value={methodology.id}>
+                          {methodology.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {METHODOLOGIES.find(methodology => methodology.id === field.value)?.description}
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -611,6 +926,10 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
               </FormItem>
             )}
           />
+
+          <Separator className="my-4" />
+
+          <VoiceCallSettings form={form} />
         </div>
 
         <div className="flex gap-2">
@@ -620,11 +939,11 @@ export function PromptForm({ onSubmit, isLoading = false, restoredFormData, onFo
             disabled={isLoading}
             size="lg"
             onClick={() => {
-              const apiKey = form.getValues("apiKey")
-              if (!apiKey) {
+              const missingField = getMissingProviderField(form.getValues())
+              if (missingField) {
                 toast({
-                  title: "OpenAI API Key Required",
-                  description: "Please check your OpenAI API key in the API Configuration section",
+                  title: `${missingField.label} Required`,
+                  description: `Please check your ${missingField.label} in the API Configuration section`,
                   variant: "destructive",
                 })
                 setIsApiOpen(true)
@@ -1,23 +1,34 @@
 "use client"
 
 import ReactMarkdown from "react-markdown"
-import { ChevronDown } from "lucide-react"
-import { useState, useCallback } from "react"
+import { ChevronDown, AlertTriangle, Phone } from "lucide-react"
+import { useState, useCallback, useMemo, useEffect } from "react"
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible"
-import { CopyButton, DeleteButton, RestoreButton, CallButton } from "./prompt-actions"
+import { CopyButton, DeleteButton, RestoreButton, CallButton, CompareButton, PinButton, ExportButton } from "./prompt-actions"
+import { HistoryItemDetailsForm } from "./history-item-details"
+import { PromptDiff } from "./prompt-diff"
+import { CallRecords } from "./call-records"
 import { Button } from "./ui/button"
-import { FormValues, ApiKeyValues } from "./prompt-form"
-
-interface PromptHistoryItem {
-  id: string
-  content: string
-  timestamp: number
-  formData: Omit<FormValues, keyof ApiKeyValues>
-}
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert"
+import { FormValues, ApiKeyValues, pickApiKeyValues } from "./prompt-form"
+import { HistoryFilters } from "./history-filters"
+import {
+  type PromptHistoryItem,
+  type HistoryFilters as HistoryFilterValues,
+  DEFAULT_HISTORY_FILTERS,
+  filterHistory,
+  groupVersionTrees,
+  hasActiveFilters,
+  usePromptHistory,
+} from "@/lib/prompt-history"
+import { exportVoiceAgent } from "@/lib/prompt-export"
+import { getMissingProviderField } from "@/lib/providers"
+import { useToast } from "@/hooks/use-toast"
+import { getCallContext } from "@/lib/call-state"
 
 interface PromptHistoryProps {
   history: PromptHistoryItem[]
@@ -27,15 +38,95 @@ interface PromptHistoryProps {
 }
 
 const ITEMS_PER_PAGE = 10
+// Deeper revisions stop indenting so rows stay readable
+const MAX_INDENT_DEPTH = 4
 
 export function PromptHistory({ history, onDelete, onRestore, currentFormData }: PromptHistoryProps) {
   const [currentPage, setCurrentPage] = useState(0)
   const [openItems, setOpenItems] = useState<Set<string>>(new Set())
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const hasMore = usePromptHistory(state => state.hasMore)
+  const loadMore = usePromptHistory(state => state.loadMore)
+  const storageWarning = usePromptHistory(state => state.storageWarning)
+  const loadAll = usePromptHistory(state => state.loadAll)
+  const updateItem = usePromptHistory(state => state.updateItem)
+  const scoreCallRecord = usePromptHistory(state => state.scoreCallRecord)
+  const { toast } = useToast()
+  const [filters, setFilters] = useState<HistoryFilterValues>(DEFAULT_HISTORY_FILTERS)
+  // Version trees are only shown in the default view; searching or re-sorting lists matches flat
+  const showTrees = !hasActiveFilters(filters) && filters.sort === DEFAULT_HISTORY_FILTERS.sort
 
-  const totalPages = Math.ceil(history.length / ITEMS_PER_PAGE)
+  // Pages hold whole version trees so revisions stay next to their original
+  const trees = useMemo(() => groupVersionTrees(history), [history])
+  const versions = useMemo(() => trees.flat(), [trees])
+  const groups = useMemo(() => {
+    if (showTrees) {
+      return trees
+    }
+    const versionNumbers = new Map(versions.map(node => [node.item.id, node.version]))
+    return filterHistory(history, filters).map(item => [
+      { item, depth: 0, version: versionNumbers.get(item.id) ?? 1 }
+    ])
+  }, [showTrees, trees, versions, history, filters])
+  const totalPages = Math.ceil(groups.length / ITEMS_PER_PAGE)
   const startIndex = currentPage * ITEMS_PER_PAGE
   const endIndex = startIndex + ITEMS_PER_PAGE
-  const currentItems = history.slice(startIndex, endIndex)
+  const currentItems = groups.slice(startIndex, endIndex).flat()
+
+  useEffect(() => {
+    if (!showTrees) {
+      loadAll()
+    }
+  }, [showTrees, loadAll])
+
+  // Exports everything that matches, not just the loaded pages
+  const handleBulkExport = async () => {
+    await loadAll()
+    return filterHistory(usePromptHistory.getState().items, filters)
+  }
+
+  const handleFiltersChange = (newFilters: HistoryFilterValues) => {
+    setFilters(newFilters)
+    setCurrentPage(0)
+  }
+
+  // Compare the older of the two selected versions against the newer one
+  const compared = versions
+    .filter(node => compareIds.includes(node.item.id))
+    .sort((a, b) => a.item.timestamp - b.item.timestamp)
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id)
+      ? ids.filter(existing => existing !== id)
+      : [...ids, id].slice(-2))
+  }
+
+  // Deleting items, or older originals pulling their revisions onto a later page, can leave us past the end
+  useEffect(() => {
+    if (totalPages > 0 && currentPage >= totalPages) {
+      setCurrentPage(totalPages - 1)
+    }
+  }, [currentPage, totalPages])
+
+  // Older items are only read from IndexedDB once the loaded pages run out
+  const handleNextPage = async () => {
+    if (showTrees && currentPage + 1 >= totalPages && hasMore) {
+      setIsLoadingMore(true)
+      try {
+        await loadMore()
+      } finally {
+        setIsLoadingMore(false)
+      }
+    }
+    setCurrentPage(p => p + 1)
+  }
+
+  const getVersionLabel = (item: PromptHistoryItem) => {
+    const node = versions.find(version => version.item.id === item.id)
+    const { date, time } = formatTimestamp(item.timestamp)
+    return node && node.version > 1 ? `v${node.version} (${date} ${time})` : `${date} ${time}`
+  }
 
   const toggleItem = (id: string) => {
     const newOpenItems = new Set(openItems)
@@ -57,10 +148,7 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
 
   const handleRestore = useCallback((item: PromptHistoryItem) => {
     // When restoring, preserve the current API keys
-    const currentApiKeys = {
-      apiKey: currentFormData?.apiKey || "",
-      vapiKey: currentFormData?.vapiKey || "",
-    }
+    const currentApiKeys = pickApiKeyValues(currentFormData)
     
     onRestore({
       ...item,
@@ -71,15 +159,93 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
     })
   }, [currentFormData, onRestore])
 
+  // Calls are scored with the provider and model currently selected in the form
+  const handleScoreCall = useCallback(async (itemId: string, callId: string) => {
+    const missingField = currentFormData ? getMissingProviderField(currentFormData) : undefined
+    if (!currentFormData || missingField) {
+      toast({
+        title: `${missingField?.label ?? "API Key"} Required`,
+        description: "Scoring uses the provider selected in the form. Please check the API Configuration section.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      await scoreCallRecord(itemId, callId, currentFormData)
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Scoring Failed",
+        description: error instanceof Error ? error.message : "The call could not be scored",
+        variant: "destructive",
+      })
+    }
+  }, [currentFormData, scoreCallRecord, toast])
+
+  const handleTogglePin = useCallback(async (item: PromptHistoryItem) => {
+    try {
+      await updateItem(item.id, { pinned: !item.pinned })
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Save Failed",
+        description: item.pinned ? "The prompt could not be unpinned" : "The prompt could not be pinned",
+        variant: "destructive",
+      })
+    }
+  }, [updateItem, toast])
+
   return (
     <div className="space-y-4">
+      {storageWarning && (
+        <Alert variant="destructive" className="bg-white">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Storage almost full</AlertTitle>
+          <AlertDescription>{storageWarning}</AlertDescription>
+        </Alert>
+      )}
+      {compared.length === 2 ? (
+        <PromptDiff
+          before={compared[0].item}
+          after={compared[1].item}
+          beforeLabel={getVersionLabel(compared[0].item)}
+          afterLabel={getVersionLabel(compared[1].item)}
+          onClose={() => setCompareIds([])}
+        />
+      ) : compared.length === 1 ? (
+        <p className="rounded-md border bg-white p-3 text-sm text-muted-foreground">
+          Select another version to compare it with.
+        </p>
+      ) : null}
+      {history.length > 0 && (
+        <div className="flex items-start gap-2">
+          <div className="min-w-0 flex-1">
+            <HistoryFilters
+              history={history}
+              filters={filters}
+              onChange={handleFiltersChange}
+              onOpen={loadAll}
+              resultCount={groups.length}
+            />
+          </div>
+          <ExportButton
+            tooltipContent={hasActiveFilters(filters) ? "Export matching prompts" : "Export all prompts"}
+            prompts={handleBulkExport}
+          />
+        </div>
+      )}
       <div className="space-y-1">
         {history.length === 0 ? (
           <div className="rounded-lg border bg-white p-6 text-sm text-center text-muted-foreground">
             Your prompt history will appear here.
           </div>
+        ) : groups.length === 0 ? (
+          <div className="rounded-lg border bg-white p-6 text-sm text-center text-muted-foreground">
+            No prompts match your search.
+          </div>
         ) : (
-          currentItems.map((item) => {
+          currentItems.map(({ item, depth, version }) => {
             const { date, time } = formatTimestamp(item.timestamp)
             const isOpen = openItems.has(item.id)
             
@@ -89,6 +255,7 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
                 open={isOpen}
                 onOpenChange={() => toggleItem(item.id)}
                 className="rounded-md border bg-white/50 transition-colors hover:bg-white"
+                style={{ marginLeft: `${Math.min(depth, MAX_INDENT_DEPTH) * 16}px` }}
               >
                 <div className="flex items-center justify-between p-2">
                   <CollapsibleTrigger asChild>
@@ -99,14 +266,44 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
                         }`}
                       />
                       <span className="min-w-0 flex-1 truncate text-left">
-                        {item.content.split('\n')[0].substring(0, 100)}...
+                        {item.title || `${item.content.split('\n')[0].substring(0, 100)}...`}
                       </span>
+                      {item.tags?.map((tag) => (
+                        <span key={tag} className="shrink-0 rounded-full border px-2 text-xs text-muted-foreground">
+                          {tag}
+                        </span>
+                      ))}
+                      {depth > 0 && (
+                        <span className="shrink-0 rounded bg-muted px-1 text-xs text-muted-foreground">
+                          v{version}
+                        </span>
+                      )}
+                      {item.revisionNote && (
+                        <span className="ml-2 max-w-[30%] shrink truncate text-xs text-muted-foreground" title={item.revisionNote}>
+                          ↳ {item.revisionNote}
+                        </span>
+                      )}
+                      {item.calls && item.calls.length > 0 && (
+                        <span className="ml-2 flex shrink-0 items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                          <Phone className="h-3 w-3" />
+                          {item.calls.length}
+                        </span>
+                      )}
+                      {item.template && (
+                        <span className="ml-2 shrink-0 text-xs text-muted-foreground whitespace-nowrap">
+                          {item.template.name} v{item.template.version}
+                        </span>
+                      )}
                       <span className="ml-2 shrink-0 text-xs text-muted-foreground whitespace-nowrap">
                         {date} {time}
                       </span>
                     </button>
                   </CollapsibleTrigger>
                   <div className="flex gap-1">
+                    <PinButton
+                      pinned={!!item.pinned}
+                      onToggle={() => handleTogglePin(item)}
+                    />
                     <CallButton 
                       buttonId={`history-${item.id}`}
                       onCall={async () => {
@@ -117,14 +314,19 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
                         return {
                           apiKey: currentFormData.vapiKey,
                           systemPrompt: item.content,
-                          context: {
-                            assistantName: item.formData.aiName || 'AI Assistant',
-                            companyName: item.formData.companyName || 'Company'
-                          }
+                          context: getCallContext(item.formData, item.tools)
                         };
                       }}
                     />
+                    <CompareButton
+                      selected={compareIds.includes(item.id)}
+                      onToggle={() => toggleCompare(item.id)}
+                    />
                     <CopyButton text={item.content} />
+                    <ExportButton
+                      prompts={() => [item]}
+                      onExportAgent={(platformId) => exportVoiceAgent(item, platformId)}
+                    />
                     <RestoreButton 
                       onRestore={() => handleRestore(item)} 
                     />
@@ -135,7 +337,14 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
                   </div>
                 </div>
                 <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up">
-                  <div className="border-t bg-white/50 p-4">
+                  <div className="space-y-4 border-t bg-white/50 p-4">
+                    <HistoryItemDetailsForm
+                      item={item}
+                      onSave={(details) => updateItem(item.id, details)}
+                    />
+                    {item.calls && item.calls.length > 0 && (
+                      <CallRecords calls={item.calls} onScore={(callId) => handleScoreCall(item.id, callId)} />
+                    )}
                     <div className="prose prose-sm max-w-none dark:prose-invert">
                       <ReactMarkdown>{item.content}</ReactMarkdown>
                     </div>
@@ -147,7 +356,7 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
         )}
       </div>
 
-      {totalPages > 1 && (
+      {(totalPages > 1 || hasMore) && (
         <div className="flex items-center justify-center space-x-2">
           <Button
             variant="outline"
@@ -158,13 +367,13 @@ export function PromptHistory({ history, onDelete, onRestore, currentFormData }:
             Previous
           </Button>
           <div className="text-sm text-muted-foreground">
-            Page {currentPage + 1} of {totalPages}
+            Page {currentPage + 1} of {totalPages}{hasMore ? "+" : ""}
           </div>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setCurrentPage(p => Math.min(totalPages - 1, p + 1))}
-            disabled={currentPage === totalPages - 1}
+            onClick={handleNextPage}
+            disabled={isLoadingMore || (currentPage >= totalPages - 1 && !hasMore)}
           >
             Next
           </Button>
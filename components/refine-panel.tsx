@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import { type RefinementTurn } from "@/lib/openai"
+
+interface RefinePanelProps {
+  turns: RefinementTurn[]
+  isLoading: boolean
+  onRefine: (instruction: string) => Promise<boolean>
+}
+
+export function RefinePanel({ turns, isLoading, onRefine }: RefinePanelProps) {
+  const [instruction, setInstruction] = useState("")
+  const { toast } = useToast()
+
+  const handleRefine = async () => {
+    const trimmed = instruction.trim()
+    if (!trimmed || isLoading) {
+      return
+    }
+
+    // Keep the instruction in the box if the revision fails, so it can be retried
+    const refined = await onRefine(trimmed)
+    if (refined) {
+      setInstruction("")
+    } else {
+      toast({
+        title: "Refinement Failed",
+        description: "The prompt was left unchanged. Check your API settings and try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-3">
+      {turns.length > 0 && (
+        <ol className="max-h-20 space-y-1 overflow-auto text-xs text-muted-foreground">
+          {turns.map((turn, index) => (
+            <li key={index} className="truncate">
+              <span className="font-medium text-foreground">{index + 1}.</span> {turn.instruction}
+            </li>
+          ))}
+        </ol>
+      )}
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleRefine()
+        }}
+      >
+        <Input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='Refine, e.g. "make the opening shorter"'
+          disabled={isLoading}
+          className="bg-muted/50"
+        />
+        <Button type="submit" disabled={isLoading || !instruction.trim()}>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Wand2 className="h-4 w-4" />
+          )}
+          Refine
+        </Button>
+      </form>
+    </div>
+  )
+}
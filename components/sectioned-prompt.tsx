@@ -0,0 +1,60 @@
+"use client"
+
+import ReactMarkdown from "react-markdown"
+import { useToast } from "@/hooks/use-toast"
+import { RegenerateButton } from "./prompt-actions"
+import { parsePromptSections } from "@/lib/prompt-sections"
+import { cn } from "@/lib/utils"
+
+interface SectionedPromptProps {
+  prompt: string
+  // Section actions are hidden while any generation is running
+  isLoading: boolean
+  regeneratingSection: number | null
+  onRegenerateSection: (index: number) => Promise<boolean>
+}
+
+export function SectionedPrompt({ prompt, isLoading, regeneratingSection, onRegenerateSection }: SectionedPromptProps) {
+  const { toast } = useToast()
+  const sections = parsePromptSections(prompt)
+
+  const handleRegenerate = async (index: number) => {
+    const regenerated = await onRegenerateSection(index)
+    if (!regenerated) {
+      toast({
+        title: "Regeneration Failed",
+        description: `The ${sections[index].title} section was left unchanged`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Prompts that don't follow the usual structure are shown as a whole
+  if (!sections.some(section => section.title)) {
+    return <ReactMarkdown>{prompt}</ReactMarkdown>
+  }
+
+  return (
+    <>
+      {sections.map((section, index) => (
+        <div
+          key={index}
+          className={cn(
+            "relative",
+            regeneratingSection === index && "rounded-md bg-primary/5 ring-1 ring-primary/20"
+          )}
+        >
+          {section.title && !isLoading && (
+            <div className="absolute right-0 top-1">
+              <RegenerateButton
+                onRegenerate={() => handleRegenerate(index)}
+                tooltipContent={`Regenerate ${section.title}`}
+              />
+            </div>
+          )}
+          <ReactMarkdown>{section.content}</ReactMarkdown>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { useToast } from "@/hooks/use-toast"
+import { DeleteButton } from "./prompt-actions"
+import { useTemplateLibrary, BUILT_IN_TEMPLATE_ID } from "@/lib/templates"
+import { TEMPLATE_VARIABLES } from "@/lib/openai"
+
+export function TemplateLibrary() {
+  const templates = useTemplateLibrary(state => state.templates)
+  const loadTemplates = useTemplateLibrary(state => state.load)
+  const duplicateTemplate = useTemplateLibrary(state => state.duplicateTemplate)
+  const saveTemplate = useTemplateLibrary(state => state.saveTemplate)
+  const getTemplateVersion = useTemplateLibrary(state => state.getTemplateVersion)
+  const deleteTemplate = useTemplateLibrary(state => state.deleteTemplate)
+  const { toast } = useToast()
+
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATE_ID)
+  const [name, setName] = useState("")
+  const [systemPrompt, setSystemPrompt] = useState("")
+  const [userPrompt, setUserPrompt] = useState("")
+  const [isVariablesOpen, setIsVariablesOpen] = useState(false)
+
+  const selected = templates.find(template => template.id === selectedId) ?? templates[0]
+  const isDirty = name !== selected.name
+    || systemPrompt !== selected.systemPrompt
+    || userPrompt !== selected.userPrompt
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  // Reset the draft whenever a different template (or a newly saved version) is selected
+  useEffect(() => {
+    setName(selected.name)
+    setSystemPrompt(selected.systemPrompt)
+    setUserPrompt(selected.userPrompt)
+  }, [selected])
+
+  const handleDuplicate = () => {
+    const copy = duplicateTemplate(selected.id)
+    setSelectedId(copy.id)
+    toast({
+      title: "Template Duplicated",
+      description: `"${copy.name}" is ready to edit`,
+    })
+  }
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Please give the template a name",
+        variant: "destructive",
+      })
+      return
+    }
+    saveTemplate(selected.id, { name: name.trim(), systemPrompt, userPrompt })
+    toast({
+      title: "Template Saved",
+      description: `Saved as version ${selected.version + 1}`,
+    })
+  }
+
+  // Loads an earlier version into the draft; saving it makes it the newest version
+  const handleLoadVersion = (value: string) => {
+    const earlier = getTemplateVersion(selected.id, Number(value))
+    if (earlier) {
+      setSystemPrompt(earlier.systemPrompt)
+      setUserPrompt(earlier.userPrompt)
+    }
+  }
+
+  const handleDelete = () => {
+    deleteTemplate(selected.id)
+    setSelectedId(BUILT_IN_TEMPLATE_ID)
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-white p-4">
+      <div className="flex items-center gap-2">
+        <Select value={selected.id} onValueChange={setSelectedId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name} v{template.version}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={handleDuplicate}>
+          Duplicate
+        </Button>
+        {!selected.builtIn && (
+          <DeleteButton
+            onDelete={handleDelete}
+            deleteMessage="Delete template"
+          />
+        )}
+      </div>
+
+      {selected.builtIn && (
+        <p className="text-sm text-muted-foreground">
+          The built-in template is read-only. Duplicate it to make your own version.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="template-name">Name</Label>
+        <Input
+          id="template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          readOnly={selected.builtIn}
+          className="bg-muted/50"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-system-prompt">System Prompt</Label>
+        <Textarea
+          id="template-system-prompt"
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          readOnly={selected.builtIn}
+          className="h-64 bg-muted/50 font-mono text-xs md:text-xs"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-user-prompt">User Prompt</Label>
+        <Textarea
+          id="template-user-prompt"
+          value={userPrompt}
+          onChange={(e) => setUserPrompt(e.target.value)}
+          readOnly={selected.builtIn}
+          className="h-40 bg-muted/50 font-mono text-xs md:text-xs"
+        />
+      </div>
+
+      <Collapsible open={isVariablesOpen} onOpenChange={setIsVariablesOpen}>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="px-2">
+            <ChevronDown className={`h-4 w-4 transition-transform duration-200 ${
+              isVariablesOpen ? "rotate-180" : ""
+            }`} />
+            Available variables
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up overflow-hidden">
+          <ul className="space-y-1 px-2 pt-2 text-xs text-muted-foreground">
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <li key={variable.name}>
+                <code className="text-foreground">{`{{${variable.name}}}`}</code> {variable.description}
+              </li>
+            ))}
+          </ul>
+        </CollapsibleContent>
+      </Collapsible>
+
+      {!selected.builtIn && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            Version {selected.version} · saved {new Date(selected.updatedAt).toLocaleString()}
+          </span>
+          <div className="flex items-center gap-2">
+            {selected.versions && selected.versions.length > 0 && (
+              <Select value="" onValueChange={handleLoadVersion}>
+                <SelectTrigger className="h-9 w-44 text-xs">
+                  <SelectValue placeholder="Load earlier version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.versions.map((earlier) => (
+                    <SelectItem key={earlier.version} value={String(earlier.version)}>
+                      Version {earlier.version} · {new Date(earlier.updatedAt).toLocaleDateString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button type="button" onClick={handleSave} disabled={!isDirty}>
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
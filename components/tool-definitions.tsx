@@ -0,0 +1,69 @@
+"use client"
+
+import { Loader2, Sparkles, Wrench } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { usePromptHistory, type PromptHistoryItem } from "@/lib/prompt-history"
+import { CopyButton } from "./prompt-actions"
+
+interface ToolDefinitionsProps {
+  // The history item for the prompt on screen; tools can't be saved for a prompt that isn't in history
+  item: PromptHistoryItem | undefined
+  onGenerate: () => void
+  maxHeight?: number
+}
+
+export function ToolDefinitions({ item, onGenerate, maxHeight }: ToolDefinitionsProps) {
+  const isGenerating = usePromptHistory(state => !!item && state.generatingToolIds.includes(item.id))
+
+  if (!item) {
+    return (
+      <div className="rounded-lg border bg-white p-6 text-center text-sm text-muted-foreground">
+        Tool definitions are generated once the prompt is saved to history.
+      </div>
+    )
+  }
+
+  const tools = item.tools
+  return (
+    <div className="relative rounded-md border bg-white/50">
+      <div className="flex items-center justify-between gap-2 border-b px-4 py-2">
+        <span className="flex items-center gap-1.5 text-sm font-medium">
+          <Wrench className="h-4 w-4" />
+          {tools ? `${tools.length} ${tools.length === 1 ? "tool" : "tools"}` : "Tools"}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={onGenerate} disabled={isGenerating}>
+            {isGenerating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />}
+            {isGenerating ? "Generating..." : tools ? "Regenerate" : "Generate tools"}
+          </Button>
+          {tools && tools.length > 0 && (
+            <CopyButton text={JSON.stringify(tools, null, 2)} copiedMessage="Tool definitions copied to clipboard" />
+          )}
+        </div>
+      </div>
+      <div className="space-y-3 overflow-auto p-4" style={{ maxHeight: maxHeight ? `${maxHeight}px` : "auto" }}>
+        {!tools ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {isGenerating
+              ? "Finding the tools this prompt refers to..."
+              : "No tool definitions yet. Generate them to attach the tools this prompt refers to to test calls and Vapi exports."}
+          </p>
+        ) : tools.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">This prompt doesn&apos;t refer to any tools.</p>
+        ) : (
+          tools.map(tool => (
+            <div key={tool.function.name} className="space-y-1">
+              <div className="flex items-baseline gap-2">
+                <span className="font-mono text-sm font-medium">{tool.function.name}</span>
+                <span className="truncate text-xs text-muted-foreground">{tool.function.description}</span>
+              </div>
+              <pre className="overflow-auto rounded-md border bg-muted/30 p-3 text-xs">
+                {JSON.stringify(tool, null, 2)}
+              </pre>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
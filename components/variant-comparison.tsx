@@ -0,0 +1,98 @@
+"use client"
+
+import ReactMarkdown from "react-markdown"
+import { Button } from "@/components/ui/button"
+import { CopyButton, SaveButton, PickButton } from "./prompt-actions"
+
+export interface PromptVariant {
+  id: string
+  label: string
+  model: string
+  temperature: number
+  content: string
+  status: "generating" | "done" | "stopped" | "error"
+  error?: string
+}
+
+interface VariantComparisonProps {
+  variants: PromptVariant[]
+  onSave: (variant: PromptVariant) => void
+  onPick: (variant: PromptVariant) => void
+  onDiscard: () => void
+  maxHeight?: number
+}
+
+const STATUS_LABELS: Record<PromptVariant["status"], string> = {
+  generating: "Generating…",
+  done: "Done",
+  stopped: "Stopped",
+  error: "Failed",
+}
+
+export function VariantComparison({ variants, onSave, onPick, onDiscard, maxHeight }: VariantComparisonProps) {
+  const isGenerating = variants.some(variant => variant.status === "generating")
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Pick a winner to make it the current prompt, or save the ones worth keeping to history.
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onDiscard}
+          disabled={isGenerating}
+        >
+          Discard all
+        </Button>
+      </div>
+      <div className="overflow-x-auto pb-2">
+        <div
+          className="grid gap-3"
+          style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(260px, 1fr))` }}
+        >
+          {variants.map((variant) => (
+            <div key={variant.id} className="flex flex-col rounded-md border bg-white/50">
+              <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">Variant {variant.label}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {variant.model} · temp {variant.temperature} · {STATUS_LABELS[variant.status]}
+                  </div>
+                </div>
+                {variant.status !== "generating" && variant.content && (
+                  <div className="flex flex-none gap-1">
+                    <PickButton onPick={() => onPick(variant)} />
+                    <SaveButton
+                      onSave={() => onSave(variant)}
+                      savedMessage={`Variant ${variant.label} added to history`}
+                    />
+                    <CopyButton text={variant.content} />
+                  </div>
+                )}
+              </div>
+              <div
+                className="prose prose-sm max-w-none overflow-auto p-3 dark:prose-invert"
+                style={{ maxHeight: maxHeight ? `${maxHeight}px` : 'auto' }}
+              >
+                {variant.status === "error" ? (
+                  <p className="text-destructive">{variant.error}</p>
+                ) : variant.content ? (
+                  <ReactMarkdown>{variant.content}</ReactMarkdown>
+                ) : variant.status === "generating" ? (
+                  <div className="flex items-center justify-center">
+                    <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-gray-900" />
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Stopped before any text was generated.</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+"use client"
+
+import { useState } from "react"
+import { type UseFormReturn } from "react-hook-form"
+import { ChevronDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import {
+  CALL_MODEL_PROVIDERS,
+  TRANSCRIBER_LANGUAGES,
+  TRANSCRIBER_MODELS,
+  VOICE_PROVIDERS,
+  getCallModelProvider,
+  getVoiceProvider,
+} from "@/lib/voice-settings"
+import { type ApiKeyValues, type FormValues } from "./prompt-form"
+import { MockCalendarSettings } from "./mock-calendar-settings"
+
+interface VoiceCallSettingsProps {
+  form: UseFormReturn<FormValues & ApiKeyValues>
+}
+
+interface OptionSelectProps {
+  value: string
+  onChange: (value: string) => void
+  options: { id: string; name: string }[]
+}
+
+function OptionSelect({ value, onChange, options }: OptionSelectProps) {
+  return (
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function VoiceCallSettings({ form }: VoiceCallSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const voiceProvider = getVoiceProvider(form.watch("voice.voiceProvider"))
+  const callProvider = getCallModelProvider(form.watch("voice.callProvider"))
+
+  const renderSlider = (name: "voice.stability" | "voice.similarityBoost", label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}: {field.value.toFixed(2)}</FormLabel>
+          <FormControl>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              className="w-full accent-primary"
+              value={field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  // Opens by itself when a setting fails validation, since the error would be hidden otherwise
+  const open = isOpen || !!form.formState.errors.voice
+
+  return (
+    <Collapsible open={open} onOpenChange={setIsOpen} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="w-9 p-0">
+            <ChevronDown className={`h-4 w-4 transition-transform duration-200 ${
+              !open ? "" : "rotate-180"
+            }`} />
+            <span className="sr-only">Toggle voice and call settings</span>
+          </Button>
+        </CollapsibleTrigger>
+        <div>
+          <span className="text-sm font-medium">Voice & Call Settings</span>
+          <p className="text-[0.8rem] text-muted-foreground">
+            {voiceProvider.name} voice, {callProvider.name} {form.watch("voice.callModel")} for test calls and exported assistants
+          </p>
+        </div>
+      </div>
+      <CollapsibleContent className="data-[state=open]:animate-collapsible-down data-[state=closed]:animate-collapsible-up overflow-hidden">
+        <div className="grid grid-cols-2 gap-4 p-0.5">
+          <FormField
+            control={form.control}
+            name="voice.voiceProvider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Voice Provider</FormLabel>
+                <OptionSelect
+                  value={field.value}
+                  onChange={(value) => {
+                    field.onChange(value)
+                    // Voice ids only make sense for the provider they came from
+                    form.setValue("voice.voiceId", getVoiceProvider(value).voices[0].id)
+                  }}
+                  options={VOICE_PROVIDERS}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voice.voiceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Voice ID</FormLabel>
+                <FormControl>
+                  <Input list={`${voiceProvider.id}-voices`} className="bg-muted/50" {...field} />
+                </FormControl>
+                <datalist id={`${voiceProvider.id}-voices`}>
+                  {voiceProvider.voices.map((voice) => (
+                    <option key={voice.id} value={voice.id} label={voice.name} />
+                  ))}
+                </datalist>
+                <FormDescription>
+                  {voiceProvider.voices.find(voice => voice.id === field.value)?.name ?? "Custom voice"}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {voiceProvider.tunable && (
+            <>
+              {renderSlider("voice.stability", "Stability", "Lower is more expressive, higher is more consistent")}
+              {renderSlider("voice.similarityBoost", "Similarity", "How closely the voice sticks to the original")}
+            </>
+          )}
+          <FormField
+            control={form.control}
+            name="voice.transcriberModel"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Transcriber (Deepgram)</FormLabel>
+                <OptionSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={TRANSCRIBER_MODELS.map(model => ({ id: model, name: model }))}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voice.transcriberLanguage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Language</FormLabel>
+                <OptionSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={TRANSCRIBER_LANGUAGES.map(language => ({ id: language.code, name: language.name }))}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voice.callProvider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Call Model Provider</FormLabel>
+                <OptionSelect
+                  value={field.value}
+                  onChange={(value) => {
+                    field.onChange(value)
+                    form.setValue("voice.callModel", getCallModelProvider(value).models[0])
+                  }}
+                  options={CALL_MODEL_PROVIDERS}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voice.callModel"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Call Model</FormLabel>
+                <OptionSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={callProvider.models.map(model => ({ id: model, name: model }))}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="p-0.5 pt-4">
+          <MockCalendarSettings />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
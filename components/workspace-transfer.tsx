@@ -0,0 +1,190 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import {
+  exportWorkspace,
+  importWorkspace,
+  parseWorkspaceBundle,
+  type ImportMode,
+  type WorkspaceBundle,
+} from "@/lib/workspace"
+import { useMockCalendar } from "@/lib/mock-calendar"
+import { usePromptHistory } from "@/lib/prompt-history"
+import { useTemplateLibrary } from "@/lib/templates"
+import { downloadFile } from "@/lib/utils"
+
+export function WorkspaceTransfer() {
+  const [pendingBundle, setPendingBundle] = useState<WorkspaceBundle | null>(null)
+  const [mode, setMode] = useState<ImportMode>("merge")
+  const [isWorking, setIsWorking] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const reloadHistory = usePromptHistory(state => state.reload)
+  const reloadTemplates = useTemplateLibrary(state => state.reload)
+  const reloadCalendar = useMockCalendar(state => state.reload)
+  const { toast } = useToast()
+
+  const handleExport = async () => {
+    setIsWorking(true)
+    try {
+      const bundle = await exportWorkspace()
+      const date = new Date().toISOString().slice(0, 10)
+      downloadFile(`sales-prompt-workspace-${date}.json`, JSON.stringify(bundle, null, 2), "application/json")
+      toast({
+        title: "Workspace Exported",
+        description: `${bundle.history.length} prompts and ${bundle.templates.length} templates, without API keys`,
+      })
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Export Failed",
+        description: "The workspace could not be read from browser storage",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) {
+      return
+    }
+
+    try {
+      setPendingBundle(parseWorkspaceBundle(await file.text()))
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!pendingBundle) {
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const summary = await importWorkspace(pendingBundle, mode)
+      setPendingBundle(null)
+
+      // Replacing also swaps the saved form and current prompt, which are only read on page load
+      if (mode === "replace") {
+        window.location.reload()
+        return
+      }
+
+      await reloadHistory()
+      reloadTemplates()
+      reloadCalendar()
+      toast({
+        title: "Workspace Imported",
+        description: `Added ${summary.historyAdded} prompts and ${summary.templatesAdded} templates. `
+          + `Skipped ${summary.historySkipped + summary.templatesSkipped} already here.`,
+      })
+    } catch (error) {
+      console.error(error)
+      toast({
+        title: "Import Failed",
+        description: "The workspace could not be written to browser storage",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-white p-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Export</h3>
+        <p className="text-sm text-muted-foreground">
+          Download your history, templates, saved form and settings as a single file.
+          API keys are never included.
+        </p>
+        <Button type="button" variant="outline" onClick={handleExport} disabled={isWorking}>
+          <Download className="h-4 w-4" />
+          Export workspace
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <h3 className="text-sm font-medium">Import</h3>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        {pendingBundle ? (
+          <div className="space-y-3 rounded-md border bg-muted/30 p-3 text-sm">
+            <p>
+              {pendingBundle.history.length} prompts and {pendingBundle.templates.length} templates,
+              exported {new Date(pendingBundle.exportedAt).toLocaleString()}.
+            </p>
+            <div className="space-y-1">
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={mode === "merge"}
+                  onChange={() => setMode("merge")}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">Merge</span>
+                  <span className="block text-muted-foreground">Add prompts and templates that aren&apos;t already here</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={mode === "replace"}
+                  onChange={() => setMode("replace")}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">Replace</span>
+                  <span className="block text-muted-foreground">Delete this workspace and use the imported one, keeping your API keys</span>
+                </span>
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setPendingBundle(null)} disabled={isWorking}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant={mode === "replace" ? "destructive" : "default"}
+                onClick={handleImport}
+                disabled={isWorking}
+              >
+                {mode === "replace" ? "Replace workspace" : "Merge into workspace"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Load a workspace file exported from this app on another machine or by a teammate.
+            </p>
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+              <Upload className="h-4 w-4" />
+              Import workspace
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import * as z from "zod"
+import { parseModelJson } from "@/lib/model-json"
+import { createChatCompletion, type ProviderSettings } from "@/lib/providers"
+import { parsePromptSections } from "@/lib/prompt-sections"
+import { type TranscriptTurn } from "@/lib/call-state"
+
+export const SCORECARD_CATEGORIES = [
+  { id: "opening", name: "Opening", description: "Introduction, permission and confirming the right contact" },
+  { id: "discovery", name: "Discovery", description: "Questions that uncover the prospect's situation and pain" },
+  { id: "objections", name: "Objection handling", description: "Acknowledging and answering pushback" },
+  { id: "tasks", name: "Task adherence", description: "Following the prompt's # [Tasks] steps in order" },
+  { id: "outcome", name: "Outcome", description: "Whether the call objective was reached or progressed" },
+] as const
+
+export type ScorecardCategoryId = typeof SCORECARD_CATEGORIES[number]["id"]
+
+const categoryScoreSchema = z.object({
+  score: z.number().min(0).max(10),
+  comment: z.string(),
+})
+
+const scorecardResponseSchema = z.object({
+  scores: z.object({
+    opening: categoryScoreSchema,
+    discovery: categoryScoreSchema,
+    objections: categoryScoreSchema,
+    tasks: categoryScoreSchema,
+    outcome: categoryScoreSchema,
+  }),
+  summary: z.string(),
+  suggestions: z.array(z.string()),
+})
+
+export const callScorecardSchema = scorecardResponseSchema.extend({
+  // The model that scored the call, since scores from different models aren't comparable
+  model: z.string(),
+  createdAt: z.number(),
+})
+
+export type CallScorecard = z.infer<typeof callScorecardSchema>
+
+const SCORECARD_SYSTEM_PROMPT = `You are an experienced sales coach reviewing a role-played test call between an AI sales representative and a person playing the prospect. The representative was following the system prompt provided. Judge how well the prompt made the representative perform, not how well the prospect played their part.
+
+Score each category from 0 to 10, where 0 means it was missing entirely and 10 means it could not be improved:
+${SCORECARD_CATEGORIES.map(category => `- ${category.id}: ${category.description}`).join("\n")}
+
+Give each score a one or two sentence comment that quotes or points to the moment in the call it is based on. Then write a short summary, and suggest specific edits to the system prompt that would fix what went wrong. Each suggestion should name the section to change and say what to add, remove or reword.
+
+Respond with only a JSON object in this shape, with no markdown fences:
+{"scores": {"opening": {"score": 0, "comment": ""}, "discovery": {...}, "objections": {...}, "tasks": {...}, "outcome": {...}}, "summary": "", "suggestions": [""]}`
+
+function formatTranscript(transcript: TranscriptTurn[]) {
+  return transcript
+    .map(turn => `${turn.role === "assistant" ? "Representative" : "Prospect"}: ${turn.text}`)
+    .join("\n")
+}
+
+export function getOverallScore(scorecard: CallScorecard) {
+  const scores = SCORECARD_CATEGORIES.map(category => scorecard.scores[category.id].score)
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10
+}
+
+export async function scoreCall(
+  settings: ProviderSettings,
+  prompt: string,
+  transcript: TranscriptTurn[]
+): Promise<CallScorecard> {
+  if (transcript.length === 0) {
+    throw new Error("There is no transcript to score")
+  }
+
+  const tasks = parsePromptSections(prompt).find(section => section.title?.toLowerCase() === "tasks")
+  const content = await createChatCompletion(settings, {
+    messages: [
+      { role: "system", content: SCORECARD_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `System prompt the representative followed:\n\n${prompt}\n\n`
+          + (tasks
+            ? `Score task adherence against this section:\n\n${tasks.content.trim()}\n\n`
+            : "The prompt has no # [Tasks] section, so score task adherence against the call flow the prompt describes.\n\n")
+          + `Call transcript:\n\n${formatTranscript(transcript)}`,
+      },
+    ],
+    temperature: 0.2,
+    maxTokens: 1500,
+  })
+
+  const scorecard = parseModelJson(content, scorecardResponseSchema, {
+    missing: "The model did not return a scorecard",
+    invalid: "The model returned an incomplete scorecard",
+  })
+  return { ...scorecard, model: settings.model, createdAt: Date.now() }
+}
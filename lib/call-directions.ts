@@ -0,0 +1,145 @@
+import { type CallContext } from "@/lib/call-state"
+
+export type CallDirectionId = "outbound" | "inbound" | "receptionist" | "after-hours"
+
+export interface CallDirection {
+  id: CallDirectionId
+  name: string
+  description: string
+  // Meta-prompt section describing who starts the call and how to open it
+  guidance: string
+  // Sentence in the worked example that sets the scene for the call
+  exampleContext: string
+  // The worked example's opening task and dialogue
+  openingExample: string
+  // What the worked example's representative keeps the call focused on
+  focusGoal: string
+  // First line of the worked example's value pitch
+  pitchExample: string
+  // The worked example's parting line when the demo is declined
+  declinedExample: string
+  // Spoken by the Vapi assistant as soon as a test call connects
+  firstMessage: (context: CallContext) => string
+}
+
+export const CALL_DIRECTIONS: CallDirection[] = [
+  {
+    id: "outbound",
+    name: "Outbound",
+    description: "Cold calls to prospects who aren't expecting you",
+    guidance: `Introduce yourself and your company. Gain permission: "Is this a good time to discuss how we can help you with your challenges?" Confirm you are speaking to the right contact.
+
+Example Dialogue:
+AI Representative: "Hi, this is [Name] from [Company]. Am I speaking with [Prospect]?"
+Person: "Yes, this is [Prospect]."
+AI Representative: "Great! Is this a good time to talk about improving your current processes?"`,
+    exampleContext: "You're making outbound calls to introduce our voice AI service that handles missed calls and customer inquiries.",
+    openingExample: `1. Opening
+   - Introduce yourself and company
+   - Ask permission: "Is this a good time to talk briefly about improving your after-hours call handling?"
+   - Confirm you're speaking with the intended contact at the company
+   - Move to value proposition if confirmed
+
+Example dialogue:
+George: "Hi, this is George from Voice AI Solutions. Am I speaking with Mike Anderson from Comfort Care HVAC?"
+Person: "Yes, this is Mike."
+George: "Great, thanks for confirming that, Mike."
+George: "Great, thanks for confirming that, Mike. Is this a good time to talk briefly about improving your after-hours call handling?"`,
+    focusGoal: "Stay focused on booking demos",
+    pitchExample: `George: "I'm calling because we've developed an AI voice assistant that can handle all your missed calls 24/7, booking appointments and answering customer questions automatically. It's specifically designed for HVAC companies like yours."`,
+    declinedExample: `George: "Thanks for taking my call today. Have a great day!"`,
+    firstMessage: ({ assistantName, companyName }) =>
+      `Hi, this is ${assistantName} from ${companyName}, is this the owner?`,
+  },
+  {
+    id: "inbound",
+    name: "Inbound qualification",
+    description: "Prospects calling in about a demo request or enquiry",
+    guidance: `The caller has contacted the company themselves, usually after requesting a demo or seeing an advert. Do not ask for permission to talk; thank them for calling and find out why they are calling. Capture their name, company and contact details early. Qualify the lead before offering next steps, and route callers who are not a fit politely.
+
+Example Dialogue:
+AI Representative: "Thanks for calling [Company], this is [Name]. How can I help you today?"
+Person: "Hi, I filled in the form for a demo."
+AI Representative: "Great, thanks for getting in touch! Could I take your name and the company you're calling from?"`,
+    exampleContext: "You're answering inbound calls from businesses that have requested a demo of our voice AI service that handles missed calls and customer inquiries.",
+    openingExample: `1. Opening
+   - Thank the caller and introduce yourself and the company
+   - Ask how you can help, then confirm why they are calling
+   - Capture their name, company and best contact number
+   - Move to qualification once you understand their request
+
+Example dialogue:
+George: "Thanks for calling Voice AI Solutions, this is George. How can I help you today?"
+Person: "Hi, this is Mike from Comfort Care HVAC. I requested a demo on your website."
+George: "Thanks for reaching out, Mike! I'd be happy to help with that. Before we book a time, could I ask a few quick questions so we make the demo relevant to you?"`,
+    focusGoal: "Stay focused on qualifying the caller and booking a demo",
+    pitchExample: `George: "Happy to tell you more, Mike. We've developed an AI voice assistant that can handle all your missed calls 24/7, booking appointments and answering customer questions automatically. It's specifically designed for HVAC companies like yours."`,
+    declinedExample: `George: "Thanks for calling us today. Have a great day!"`,
+    firstMessage: ({ assistantName, companyName }) =>
+      `Thanks for calling ${companyName}, this is ${assistantName}. How can I help you today?`,
+  },
+  {
+    id: "receptionist",
+    name: "Receptionist",
+    description: "Answers general calls, takes messages and routes enquiries",
+    guidance: `You are answering the company's main line as its receptionist. Greet callers warmly, identify the reason for their call and either help directly, book an appointment, or take a detailed message. Treat sales enquiries as opportunities: qualify them and offer a demo or consultation. Never leave a caller without a clear next step.
+
+Example Dialogue:
+AI Representative: "Good morning, you've reached [Company]. This is [Name], how can I help?"
+Person: "Hi, I'm calling about your pricing."
+AI Representative: "Of course, I can help with that. May I take your name first?"`,
+    exampleContext: "You're the receptionist answering all incoming calls for our voice AI company, from existing customers with questions to new businesses asking about our service.",
+    openingExample: `1. Opening
+   - Greet the caller with the company name and your name
+   - Identify the reason for the call
+   - Route existing customer questions, or take a message if you can't help directly
+   - For new business enquiries, capture their details and move to the value pitch
+
+Example dialogue:
+George: "Good morning, you've reached Voice AI Solutions. This is George, how can I help?"
+Person: "Hi, I run an HVAC company and I heard you can answer our calls for us."
+George: "That's right, we can. Could I take your name and the name of your company?"
+Person: "Mike Anderson, Comfort Care HVAC."
+George: "Thanks, Mike. I'd love to tell you how it works. Do you have a couple of minutes now?"`,
+    focusGoal: "Stay focused on helping each caller and turning new business enquiries into demos",
+    pitchExample: `George: "We've developed an AI voice assistant that can handle all your missed calls 24/7, booking appointments and answering customer questions automatically. It's specifically designed for HVAC companies like yours."`,
+    declinedExample: `George: "Thanks for calling Voice AI Solutions. Have a great day!"`,
+    firstMessage: ({ assistantName, companyName }) =>
+      `Hello, you've reached ${companyName}. This is ${assistantName}, how can I help?`,
+  },
+  {
+    id: "after-hours",
+    name: "After-hours line",
+    description: "Covers calls when the office is closed",
+    guidance: `You are answering calls outside business hours. Let callers know the office is closed while making clear that you can still help. Identify urgent requests and follow the escalation process for them. For everything else, capture the caller's details and needs, book an appointment or callback for the next business day, and set clear expectations about when they will hear back.
+
+Example Dialogue:
+AI Representative: "Thanks for calling [Company]. Our office is closed right now, but this is [Name] and I can help. What can I do for you?"
+Person: "I wanted to ask about your service."
+AI Representative: "I'd be happy to help. Could I take your name and number in case we get cut off?"`,
+    exampleContext: "You're answering our after-hours line, speaking with businesses who call outside office hours about our voice AI service that handles missed calls and customer inquiries.",
+    openingExample: `1. Opening
+   - Thank the caller and explain the office is closed, but you can still help
+   - Ask for their name and number in case the call drops
+   - Check whether the request is urgent and escalate if it is
+   - Otherwise, find out what they need and move to the value pitch
+
+Example dialogue:
+George: "Thanks for calling Voice AI Solutions. Our office is closed right now, but this is George and I can help. What can I do for you?"
+Person: "Hi, it's Mike from Comfort Care HVAC. I wanted to find out about your answering service."
+George: "Thanks, Mike. Could I take the best number to reach you, in case we get cut off?"
+Person: "Sure, it's 555-0199."
+George: "Perfect. Is this something you need help with tonight, or are you looking into it for your business?"`,
+    focusGoal: "Stay focused on capturing the caller's details and booking a next-day follow-up or demo",
+    pitchExample: `George: "Of course. We've developed an AI voice assistant that can handle all your missed calls 24/7, booking appointments and answering customer questions automatically. It's specifically designed for HVAC companies like yours."`,
+    declinedExample: `George: "Thanks for calling tonight. Have a great evening!"`,
+    firstMessage: ({ assistantName, companyName }) =>
+      `Thanks for calling ${companyName}. Our office is closed right now, but this is ${assistantName} and I can still help. What can I do for you?`,
+  },
+]
+
+export const DEFAULT_CALL_DIRECTION: CallDirectionId = "outbound"
+
+export function getCallDirection(id: string | undefined): CallDirection {
+  return CALL_DIRECTIONS.find(direction => direction.id === id) ?? CALL_DIRECTIONS[0]
+}
@@ -1,13 +1,120 @@
 import { create } from 'zustand'
 import Vapi from '@vapi-ai/web'
-import { CreateAssistantDTO } from '@vapi-ai/web/dist/api'
+import { CreateAssistantDTO, type CreateFunctionToolDTO } from '@vapi-ai/web/dist/api'
+import { getCallDirection } from '@/lib/call-directions'
+import { type FormValues } from '@/components/prompt-form'
+import { DEFAULT_VOICE_SETTINGS, getVoiceProvider, type VoiceSettings } from '@/lib/voice-settings'
+import { usePromptHistory } from '@/lib/prompt-history'
+import { BOOKING_TOOLS, useMockCalendar } from '@/lib/mock-calendar'
+import { toVapiTools, type PromptTool } from '@/lib/prompt-tools'
 
 export type CallState = 'idle' | 'connecting' | 'active' | 'error'
 
+export type TranscriptRole = 'user' | 'assistant'
+
+export interface TranscriptTurn {
+  role: TranscriptRole
+  text: string
+  timestamp: number
+}
+
+export interface CallContext {
+  assistantName: string
+  companyName: string
+  callDirection?: string
+  voice: VoiceSettings
+  // Tool definitions generated alongside the prompt
+  tools?: PromptTool[]
+}
+
+// Same assistant for test calls and the downloadable Vapi assistant JSON,
+// so a prompt behaves the same once it's imported into a Vapi account
+export function buildAssistant(
+  systemPrompt: string,
+  context: CallContext,
+  localTools: CreateFunctionToolDTO[] = []
+): CreateAssistantDTO {
+  const { voice } = context
+  // Tools answered in the browser replace generated definitions with the same name
+  const localNames = new Set(localTools.map(tool => tool.function?.name))
+  const tools = [
+    ...localTools,
+    ...toVapiTools(context.tools ?? []).filter(tool => !localNames.has(tool.function?.name))
+  ]
+  return {
+    name: context.assistantName,
+    // The settings panel only offers providers and models Vapi accepts
+    voice: {
+      provider: voice.voiceProvider,
+      voiceId: voice.voiceId,
+      ...(getVoiceProvider(voice.voiceProvider).tunable && {
+        stability: voice.stability,
+        similarityBoost: voice.similarityBoost,
+      }),
+    } as CreateAssistantDTO['voice'],
+    model: {
+      provider: voice.callProvider,
+      model: voice.callModel,
+      messages: [
+        { role: 'system' as const, content: systemPrompt }
+      ],
+      ...(tools.length > 0 && { tools })
+    } as CreateAssistantDTO['model'],
+    firstMessage: getCallDirection(context.callDirection).firstMessage(context),
+    transcriber: {
+      provider: 'deepgram' as const,
+      model: voice.transcriberModel,
+      language: voice.transcriberLanguage
+    } as CreateAssistantDTO['transcriber'],
+    metadata: {
+      companyName: context.companyName,
+      ...(context.callDirection && { callDirection: context.callDirection }),
+    }
+  }
+}
+
+export function getCallContext(
+  formData: Partial<Pick<FormValues, 'aiName' | 'companyName' | 'callDirection' | 'voice'>>,
+  tools?: PromptTool[]
+): CallContext {
+  return {
+    assistantName: formData.aiName || 'AI Assistant',
+    companyName: formData.companyName || 'Company',
+    callDirection: formData.callDirection,
+    // History items saved before voice settings existed use the voice calls had then
+    voice: formData.voice ?? DEFAULT_VOICE_SETTINGS,
+    tools
+  }
+}
+
+// Tool call arguments arrive as a JSON string, or already parsed depending on the model provider
+function parseToolArguments(args: unknown): Record<string, unknown> {
+  if (typeof args !== 'string') {
+    return (args as Record<string, unknown>) ?? {}
+  }
+  try {
+    return JSON.parse(args)
+  } catch {
+    return {}
+  }
+}
+
+// "1:05" for 65 seconds
+export function formatDuration(ms: number) {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
 // Constants for timeouts and retries
 const CALL_TIMEOUT_MS = 10000 // 10 seconds
 const MAX_RETRIES = 2
 const RETRY_DELAY_MS = 1000 // 1 second
+const TIMER_INTERVAL_MS = 1000
+const AUDIO_LEVEL_INTERVAL_MS = 100
+// Vapi scales the assistant's level against this, so the microphone level is scaled the same way
+const SPEECH_LEVEL = 0.15
+
+let timer: ReturnType<typeof setInterval> | null = null
 
 interface CallStateStore {
   // State
@@ -17,18 +124,39 @@ interface CallStateStore {
   activeButtonId: string | null
   client: Vapi | null
   muted: boolean
+  // Levels from 0 to 1 for the microphone and the assistant's voice
+  inputVolume: number
+  outputVolume: number
+  elapsedMs: number
+  // Final transcript of the current or last call, kept after it ends so it can be reviewed
+  transcript: TranscriptTurn[]
+  // What each side is saying right now, before the transcriber finalises it
+  partialTranscripts: Partial<Record<TranscriptRole, string>>
+  assistantSpeaking: boolean
+  // Set while a call is active, so it can be saved to the prompt's history item when it ends
+  callStartedAt: number | null
+  callPrompt: string | null
+  // What the connecting or active call was started with, for controls outside the button that started it
+  callInfo: { systemPrompt: string; context: CallContext } | null
+  // Set when a finished call couldn't be attached to its prompt's history item
+  recordWarning: string | null
+  // Bumped to ask the page to bring the live transcript into view
+  transcriptRequest: number
 
   // Actions
   initiateCall: (
     buttonId: string,
     apiKey: string,
     systemPrompt: string,
-    context: { assistantName: string; companyName: string }
+    context: CallContext
   ) => Promise<void>
   endCall: (buttonId: string) => Promise<void>
   handleError: (error: Error) => void
   resetState: () => void
   setMuted: (muted: boolean) => void
+  addTranscript: (role: TranscriptRole, type: 'partial' | 'final', text: string) => void
+  saveCallRecord: (endedReason: string) => void
+  showTranscript: () => void
 }
 
 export const useCallState = create<CallStateStore>((set, get) => ({
@@ -39,6 +167,17 @@ export const useCallState = create<CallStateStore>((set, get) => ({
   activeButtonId: null,
   client: null,
   muted: false,
+  inputVolume: 0,
+  outputVolume: 0,
+  elapsedMs: 0,
+  transcript: [],
+  partialTranscripts: {},
+  assistantSpeaking: false,
+  callStartedAt: null,
+  callPrompt: null,
+  callInfo: null,
+  recordWarning: null,
+  transcriptRequest: 0,
 
   // Actions
   initiateCall: async (buttonId, apiKey, systemPrompt, context) => {
@@ -54,11 +193,17 @@ export const useCallState = create<CallStateStore>((set, get) => ({
 
     let retryCount = 0
     let lastError: Error | null = null
+    set({ transcript: [], partialTranscripts: {}, assistantSpeaking: false, recordWarning: null })
+
+    // Test calls answer the booking tools from a simulated calendar, since there is no server
+    useMockCalendar.getState().load()
+    useMockCalendar.getState().startSession()
+    const localTools = useMockCalendar.getState().settings.enabled ? BOOKING_TOOLS : []
 
     while (retryCount <= MAX_RETRIES) {
       try {
         // Update state to connecting
-        set({ state: 'connecting', activeButtonId: buttonId, error: null })
+        set({ state: 'connecting', activeButtonId: buttonId, error: null, callInfo: { systemPrompt, context } })
 
         // Clean up existing client if any
         if (client) {
@@ -69,46 +214,88 @@ export const useCallState = create<CallStateStore>((set, get) => ({
         const newClient = new Vapi(apiKey)
         set({ client: newClient })
 
+        // Events from a client replaced by a retry or a newer call are ignored
+        const isCurrent = () => get().client === newClient
+        let endedReason: string | undefined
+        newClient.on('message', (message) => {
+          if (!isCurrent()) {
+            return
+          }
+          if (message?.type === 'transcript') {
+            get().addTranscript(message.role, message.transcriptType, message.transcript)
+          } else if (message?.type === 'status-update' && message.status === 'ended') {
+            endedReason = message.endedReason
+          } else if (message?.type === 'tool-calls') {
+            for (const toolCall of message.toolCallList ?? []) {
+              const event = useMockCalendar.getState().handleToolCall(
+                toolCall.function.name,
+                parseToolArguments(toolCall.function.arguments)
+              )
+              if (!event) {
+                continue
+              }
+              const { name, success, result } = event
+              newClient.send({
+                type: 'add-message',
+                message: {
+                  role: 'system',
+                  content: `${name} ${success ? 'succeeded' : 'failed'}: ${JSON.stringify(result)}`
+                },
+                triggerResponseEnabled: true
+              })
+            }
+          }
+        })
+        // The assistant or Vapi can end the call too, e.g. when the assistant says goodbye
+        newClient.on('call-end', () => {
+          if (isCurrent() && get().state === 'active') {
+            get().saveCallRecord(endedReason ?? 'call-ended')
+            get().resetState()
+          }
+        })
+        newClient.on('speech-start', () => {
+          if (isCurrent()) {
+            set({ assistantSpeaking: true })
+          }
+        })
+        newClient.on('speech-end', () => {
+          if (isCurrent()) {
+            set({ assistantSpeaking: false })
+          }
+        })
+        newClient.on('volume-level', (volume) => {
+          if (isCurrent()) {
+            set({ outputVolume: volume })
+          }
+        })
+
         // Set up call timeout
         const timeoutPromise = new Promise((_, reject) => {
           setTimeout(() => reject(new Error('Call initialization timed out')), CALL_TIMEOUT_MS)
         })
 
-        // Configure assistant
-        const assistant: CreateAssistantDTO = {
-          name: context.assistantName,
-          voice: {
-            provider: '11labs' as const,
-            voiceId: 'JBFqnCBsd6RMkjVDRZzb' as const,
-            stability: 0.6,
-            similarityBoost: 0.75,
-          },
-          model: {
-            provider: 'openai' as const,
-            model: 'gpt-4o' as const,
-            messages: [
-              { role: 'system' as const, content: systemPrompt }
-            ]
-          },
-          firstMessage: `Hi, this is ${context.assistantName} from ${context.companyName}, is this the owner?`,
-          transcriber: {
-            provider: 'deepgram' as const,
-            model: 'nova-2' as const,
-            language: 'en' as const
-          },
-          metadata: {
-            companyName: context.companyName,
-          }
-        }
-
         // Start call with timeout
         await Promise.race([
-          newClient.start(assistant),
+          newClient.start(buildAssistant(systemPrompt, context, localTools)),
           timeoutPromise
         ])
 
         // Call started successfully
-        set({ state: 'active' })
+        const callStartedAt = Date.now()
+        set({ state: 'active', callStartedAt, callPrompt: systemPrompt, muted: false, elapsedMs: 0 })
+        timer = setInterval(() => set({ elapsedMs: Date.now() - callStartedAt }), TIMER_INTERVAL_MS)
+
+        // Vapi only reports the assistant's level, so the microphone is read from the Daily call
+        const dailyCall = newClient.getDailyCallObject()
+        dailyCall?.on('local-audio-level', (event) => {
+          // The observer keeps reading the microphone while the call is muted
+          if (isCurrent() && !get().muted) {
+            set({ inputVolume: Math.min(1, event.audioLevel / SPEECH_LEVEL) })
+          }
+        })
+        dailyCall?.startLocalAudioLevelObserver(AUDIO_LEVEL_INTERVAL_MS).catch((error: unknown) => {
+          console.error('Error observing microphone level:', error)
+        })
         return
 
       } catch (error) {
@@ -138,6 +325,7 @@ export const useCallState = create<CallStateStore>((set, get) => ({
       throw new Error('Only the active button can end the call')
     }
 
+    get().saveCallRecord('customer-ended-call')
     try {
       if (client) {
         await client.stop()
@@ -155,7 +343,11 @@ export const useCallState = create<CallStateStore>((set, get) => ({
 
   resetState: () => {
     const { client } = get()
-    
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+
     // Clean up client if it exists
     if (client) {
       client.stop().catch((error: unknown) => {
@@ -168,15 +360,68 @@ export const useCallState = create<CallStateStore>((set, get) => ({
       currentCallId: null,
       error: null,
       activeButtonId: null,
-      client: null
+      client: null,
+      partialTranscripts: {},
+      assistantSpeaking: false,
+      muted: false,
+      inputVolume: 0,
+      outputVolume: 0,
+      callStartedAt: null,
+      callPrompt: null,
+      callInfo: null
     })
   },
 
   setMuted: (muted: boolean) => {
-    const { client } = get()
-    if (client) {
-      // TODO: Implement mute functionality when available in Vapi client
+    const { client, state } = get()
+    if (!client || state !== 'active') {
+      return
+    }
+
+    client.setMuted(muted)
+    set({ muted, inputVolume: 0 })
+  },
+
+  addTranscript: (role, type, text) => {
+    if (type === 'partial') {
+      set(state => ({ partialTranscripts: { ...state.partialTranscripts, [role]: text } }))
+      return
     }
-    set({ muted })
+
+    // Consecutive final segments from the same speaker read as one turn
+    set(state => {
+      const last = state.transcript[state.transcript.length - 1]
+      const transcript = last?.role === role
+        ? [...state.transcript.slice(0, -1), { ...last, text: `${last.text} ${text}` }]
+        : [...state.transcript, { role, text, timestamp: Date.now() }]
+      return { transcript, partialTranscripts: { ...state.partialTranscripts, [role]: undefined } }
+    })
+  },
+
+  saveCallRecord: (endedReason) => {
+    const { callStartedAt, callPrompt, transcript } = get()
+    if (callStartedAt === null || callPrompt === null) {
+      return
+    }
+
+    set({ callStartedAt: null, callPrompt: null })
+    const endedAt = Date.now()
+    const saved = usePromptHistory.getState().addCallRecord(callPrompt, {
+      id: crypto.randomUUID(),
+      startedAt: callStartedAt,
+      endedAt,
+      durationMs: endedAt - callStartedAt,
+      endedReason,
+      transcript,
+    })
+    saved.then((added) => {
+      if (!added) {
+        set({ recordWarning: 'This call could not be saved. Test calls are only saved for prompts kept in history.' })
+      }
+    })
+  },
+
+  showTranscript: () => {
+    set(state => ({ transcriptRequest: state.transcriptRequest + 1 }))
   }
 }))
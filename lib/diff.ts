@@ -0,0 +1,85 @@
+export type DiffMode = "line" | "word"
+
+export interface DiffPart {
+  type: "equal" | "added" | "removed"
+  value: string
+}
+
+function tokenize(text: string, mode: DiffMode): string[] {
+  if (mode === "line") {
+    return text.split(/(?<=\n)/)
+  }
+  // Whitespace runs are kept as tokens so the diff can be joined back into the original text
+  return text.match(/\s+|[^\s]+/g) ?? []
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart["type"], value: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.value += value
+  } else {
+    parts.push({ type, value })
+  }
+}
+
+// Longest-common-subsequence diff. Shared leading and trailing tokens are skipped first,
+// which keeps the table small for the typical case of a few edits in a long prompt.
+export function diffText(before: string, after: string, mode: DiffMode): DiffPart[] {
+  const a = tokenize(before, mode)
+  const b = tokenize(after, mode)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const rows = endA - start
+  const cols = endB - start
+  // lengths[i * (cols + 1) + j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = new Uint32Array((rows + 1) * (cols + 1))
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  if (start > 0) {
+    pushPart(parts, "equal", a.slice(0, start).join(""))
+  }
+
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      pushPart(parts, "equal", a[start + i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1]) {
+      pushPart(parts, "removed", a[start + i])
+      i++
+    } else {
+      pushPart(parts, "added", b[start + j])
+      j++
+    }
+  }
+  for (; i < rows; i++) {
+    pushPart(parts, "removed", a[start + i])
+  }
+  for (; j < cols; j++) {
+    pushPart(parts, "added", b[start + j])
+  }
+
+  if (endA < a.length) {
+    pushPart(parts, "equal", a.slice(endA).join(""))
+  }
+  return parts
+}
@@ -0,0 +1,102 @@
+import { type PromptHistoryItem } from '@/lib/prompt-history'
+
+const DB_NAME = 'sales-prompt-creator'
+const DB_VERSION = 1
+const STORE_NAME = 'history'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('timestamp', 'timestamp')
+        store.createIndex('content', 'content')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function getStore(mode: IDBTransactionMode) {
+  const db = await openDb()
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+}
+
+export async function countHistoryItems(): Promise<number> {
+  const store = await getStore('readonly')
+  return requestToPromise(store.count())
+}
+
+// Newest first. Pass the timestamp of the last item already loaded to continue from there;
+// the bound is inclusive so items sharing that timestamp aren't skipped, and callers drop repeats.
+export async function getHistoryPage(limit: number, before?: number): Promise<PromptHistoryItem[]> {
+  const store = await getStore('readonly')
+  const range = before === undefined ? null : IDBKeyRange.upperBound(before)
+  const request = store.index('timestamp').openCursor(range, 'prev')
+  const items: PromptHistoryItem[] = []
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || items.length >= limit) {
+        resolve(items)
+        return
+      }
+      items.push(cursor.value)
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function findHistoryItemByContent(content: string): Promise<PromptHistoryItem | undefined> {
+  const store = await getStore('readonly')
+  return requestToPromise(store.index('content').get(content))
+}
+
+export async function putHistoryItems(items: PromptHistoryItem[]): Promise<void> {
+  const store = await getStore('readwrite')
+  items.forEach(item => store.put(item))
+  return transactionDone(store.transaction)
+}
+
+export async function deleteHistoryItem(id: string): Promise<void> {
+  const store = await getStore('readwrite')
+  store.delete(id)
+  return transactionDone(store.transaction)
+}
+
+export async function clearHistoryItems(): Promise<void> {
+  const store = await getStore('readwrite')
+  store.clear()
+  return transactionDone(store.transaction)
+}
+
+export async function getAllHistoryItems(): Promise<PromptHistoryItem[]> {
+  const store = await getStore('readonly')
+  const items: PromptHistoryItem[] = await requestToPromise(store.getAll())
+  return items.sort((a, b) => b.timestamp - a.timestamp)
+}
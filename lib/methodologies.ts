@@ -0,0 +1,199 @@
+export type MethodologyId = "spin" | "meddic" | "challenger" | "sandler" | "bant"
+
+export interface SalesMethodology {
+  id: MethodologyId
+  name: string
+  description: string
+  // Meta-prompt section describing how to structure the conversation
+  guidance: string
+  // The worked example's `# [Sales Methodology]` block
+  example: string
+  // Discovery questions used in the worked example's value pitch task
+  discoveryQuestions: string[]
+  // The worked example's `# [Objection Handling]` responses for cost and current-solution objections
+  objectionExample: string
+}
+
+export const METHODOLOGIES: SalesMethodology[] = [
+  {
+    id: "spin",
+    name: "SPIN Selling",
+    description: "Situation, Problem, Implication, Need-Payoff questioning",
+    guidance: `Use a structured framework (e.g., SPIN Selling):
+Situation: Understand the prospect's current operations or context.
+Problem: Identify specific pain points.
+Implication: Highlight the impact of these problems.
+Need-Payoff: Demonstrate how the solution addresses these issues.`,
+    example: `Use SPIN Selling framework:
+- Situation: Gather facts about their HVAC business operations
+- Problem: Identify pain points with missed calls and after-hours service
+- Implication: Explore impact of missed opportunities on their business
+- Need-Payoff: Highlight how our AI solution addresses these challenges`,
+    discoveryQuestions: [
+      "How do you currently handle after-hours calls?",
+      "What challenges do you face with missed calls?",
+      "How many potential customers do you estimate you're losing due to missed calls?",
+      "What would it mean for your business to never miss another service call?",
+    ],
+    objectionExample: `Common objections and SPIN-based responses:
+
+1. Cost Concerns
+   - Problem Question: "What are your current costs for after-hours call handling?"
+   - Implication: "How much business do you estimate you're losing from missed calls?"
+   - Need-Payoff: "If our solution could help you capture those missed opportunities while reducing costs, would that be valuable?"
+
+2. Current Solution
+   - Situation: "How is your current solution working for you?"
+   - Problem: "What challenges do you face with it?"
+   - Implication: "How do these challenges impact your business growth?"
+   - Need-Payoff: "What if you could eliminate those challenges while improving service?"`,
+  },
+  {
+    id: "meddic",
+    name: "MEDDIC",
+    description: "Qualify Metrics, Economic buyer, Decision criteria and process, Pain and Champion",
+    guidance: `Use the MEDDIC qualification framework:
+Metrics: Establish the measurable outcomes the prospect cares about.
+Economic Buyer: Identify who controls the budget for this decision.
+Decision Criteria: Learn how they will evaluate a solution.
+Decision Process: Understand the steps, people and timeline involved in buying.
+Identify Pain: Uncover the business pain driving change.
+Champion: Find an internal advocate who will sell on your behalf.`,
+    example: `Use MEDDIC qualification framework:
+- Metrics: Quantify missed calls and the revenue lost from them
+- Economic Buyer: Confirm whether the owner or an operations manager signs off on spend
+- Decision Criteria: Learn what matters most (cost, reliability, integration with their booking system)
+- Decision Process: Ask who else needs to see the demo and when they plan to decide
+- Identify Pain: Explore the frustration with missed calls and unreliable answering services
+- Champion: Find the person who feels the pain most and would push for a better solution`,
+    discoveryQuestions: [
+      "Roughly how many calls do you miss in a typical week?",
+      "What's an average service call worth to your business?",
+      "Who besides yourself would be involved in a decision like this?",
+      "What would a new call handling solution need to prove for you to switch?",
+    ],
+    objectionExample: `Common objections and MEDDIC-based responses:
+
+1. Cost Concerns
+   - Metrics: "What are your current costs for after-hours call handling?"
+   - Identify Pain: "How much business do you estimate you're losing from missed calls?"
+   - Economic Buyer: "If the numbers showed a clear return, who would you need to bring that to?"
+
+2. Current Solution
+   - Decision Criteria: "What did you look for when you chose your current solution?"
+   - Identify Pain: "Where does it fall short today?"
+   - Decision Process: "If you were to review alternatives, what would that process look like?"
+   - Champion: "Who on your team would benefit most from fixing this?"`,
+  },
+  {
+    id: "challenger",
+    name: "Challenger Sale",
+    description: "Teach a commercial insight, tailor it to the prospect, and take control",
+    guidance: `Use the Challenger Sale framework:
+Teach: Share a commercial insight that reframes how the prospect sees their situation.
+Tailor: Connect the insight to the prospect's specific role, industry and priorities.
+Take Control: Lead the conversation confidently toward a clear next step, including discussing value and pushing back respectfully.`,
+    example: `Use Challenger Sale framework:
+- Warmer: Show you understand the challenges HVAC companies face with peak-season call volume
+- Reframe: Share the insight that most missed calls happen outside business hours, when customers are most likely to book elsewhere
+- Rational Drowning: Quantify how much revenue a handful of missed calls per week represents over a year
+- Emotional Impact: Paint the picture of a competitor winning the jobs they never knew they missed
+- New Way: Position always-on call handling as the new standard for service businesses
+- Solution: Present the AI voice assistant as the way to get there, and take control of booking the demo`,
+    discoveryQuestions: [
+      "Most HVAC companies we speak to lose the majority of their missed calls after hours. Does that match what you see?",
+      "What happens today when a customer calls at 9 PM with a broken AC?",
+      "If a few of those callers book with a competitor each week, what does that add up to over a season?",
+      "What would change for your business if every one of those calls was answered?",
+    ],
+    objectionExample: `Common objections and Challenger-based responses:
+
+1. Cost Concerns
+   - Reframe: "Most companies compare us to the cost of an answering service, but the real comparison is the jobs lost to missed calls."
+   - Quantify: "How much business do you estimate you're losing from missed calls?"
+   - Take Control: "Let's look at the numbers together in the demo so you can judge the return yourself."
+
+2. Current Solution
+   - Acknowledge: "Plenty of companies we work with started with an answering service."
+   - Teach: "What we've found is that callers hang up when they don't reach someone who can book the job there and then."
+   - Tailor: "How often does your current service actually get a job booked, rather than taking a message?"
+   - Take Control: "It's worth seeing the difference side by side. Shall we set that up?"`,
+  },
+  {
+    id: "sandler",
+    name: "Sandler",
+    description: "Up-front contract, pain, budget and decision before presenting",
+    guidance: `Use the Sandler Selling System:
+Bonding & Rapport: Build genuine rapport and put the prospect at ease.
+Up-Front Contract: Agree the purpose, time and possible outcomes of the conversation, including that "no" is acceptable.
+Pain: Uncover the emotional and business pain behind their situation.
+Budget: Understand what they are willing to invest to solve it.
+Decision: Learn how and by whom the decision will be made.
+Fulfilment: Only then present how the solution addresses the pain.
+Post-Sell: Confirm next steps and prevent buyer's remorse.`,
+    example: `Use Sandler Selling System:
+- Up-Front Contract: Agree on a few minutes to see if there's a fit, and that it's fine to say no
+- Pain: Dig into what missed calls are costing them, both in revenue and stress
+- Budget: Learn what they spend on call handling today and what fixing it would be worth
+- Decision: Confirm who decides and how they like to evaluate new tools
+- Fulfilment: Present the AI assistant only once the pain is clear
+- Post-Sell: Confirm the demo and what they want to see, so the next step sticks`,
+    discoveryQuestions: [
+      "Can you tell me a bit more about how after-hours calls are handled today?",
+      "How long has that been a problem?",
+      "What have you tried so far to fix it?",
+      "How do you feel about the jobs you lose when a call goes unanswered?",
+    ],
+    objectionExample: `Common objections and Sandler-based responses:
+
+1. Cost Concerns
+   - Reverse: "That's fair. When you say cost, what are you comparing it to?"
+   - Pain: "How much business do you estimate you're losing from missed calls?"
+   - Budget: "If fixing that paid for itself, is it something you'd set budget aside for?"
+
+2. Current Solution
+   - Bond: "It sounds like you've already put something in place, which makes sense."
+   - Pain: "What made you take my call, given you already have a solution?"
+   - Decision: "If you found something better, how would you go about making a change?"
+   - Up-Front Contract: "Would it be fair to take a short look, and if it's not a fit, just tell me no?"`,
+  },
+  {
+    id: "bant",
+    name: "BANT",
+    description: "Qualify Budget, Authority, Need and Timeline",
+    guidance: `Use the BANT qualification framework:
+Budget: Establish whether the prospect can invest in a solution.
+Authority: Confirm you are speaking with, or can reach, the decision maker.
+Need: Identify the business need the solution would address.
+Timeline: Understand when they intend to solve the problem.`,
+    example: `Use BANT qualification framework:
+- Budget: Learn what they spend on call handling today and whether there's room to invest
+- Authority: Confirm they make, or can influence, decisions about customer service tools
+- Need: Identify how missed calls and after-hours service affect their business
+- Timeline: Find out when they want a solution in place, for example before peak season`,
+    discoveryQuestions: [
+      "How do you currently handle after-hours calls?",
+      "What are you spending on call handling today?",
+      "Are you the right person to look at tools like this, or is someone else involved?",
+      "Is this something you'd want in place before your next busy season?",
+    ],
+    objectionExample: `Common objections and BANT-based responses:
+
+1. Cost Concerns
+   - Budget: "What are your current costs for after-hours call handling?"
+   - Need: "How much business do you estimate you're losing from missed calls?"
+   - Timeline: "If we could show a return within the first season, would now be the right time to look?"
+
+2. Current Solution
+   - Need: "How is your current solution working for you?"
+   - Need: "What challenges do you face with it?"
+   - Authority: "Who would be involved in deciding whether to change providers?"
+   - Timeline: "When does your current contract come up for renewal?"`,
+  },
+]
+
+export const DEFAULT_METHODOLOGY: MethodologyId = "spin"
+
+export function getMethodology(id: string | undefined): SalesMethodology {
+  return METHODOLOGIES.find(methodology => methodology.id === id) ?? METHODOLOGIES[0]
+}
@@ -0,0 +1,205 @@
+import { create } from "zustand"
+import { type CreateFunctionToolDTO } from "@vapi-ai/web/dist/api"
+
+export type BookingToolName = "check_availability" | "book_appointment"
+
+// How many attempts at a tool fail before it starts working, so retry dialogue can be tested
+export type FailureMode = "none" | "first" | "twice" | "always"
+
+export const FAILURE_MODES: { id: FailureMode; name: string }[] = [
+  { id: "none", name: "Always succeed" },
+  { id: "first", name: "Fail first attempt" },
+  { id: "twice", name: "Fail first two attempts" },
+  { id: "always", name: "Always fail" },
+]
+
+export interface MockCalendarSettings {
+  enabled: boolean
+  slots: string[]
+  failures: Record<BookingToolName, FailureMode>
+}
+
+export interface ToolCallEvent {
+  name: string
+  args: Record<string, unknown>
+  success: boolean
+  result: unknown
+  timestamp: number
+}
+
+const STORAGE_KEY = "mock-calendar-settings"
+
+const DEFAULT_SETTINGS: MockCalendarSettings = {
+  enabled: true,
+  slots: ["Tuesday 10:00 AM", "Tuesday 2:00 PM", "Wednesday 11:00 AM", "Thursday 9:30 AM", "Friday 3:00 PM"],
+  failures: {
+    check_availability: "none",
+    book_appointment: "none",
+  },
+}
+
+const FAILED_ATTEMPTS: Record<FailureMode, number> = {
+  none: 0,
+  first: 1,
+  twice: 2,
+  always: Infinity,
+}
+
+const TOOL_ERRORS: Record<BookingToolName, string> = {
+  check_availability: "Calendar service timed out",
+  book_appointment: "Booking service returned an error",
+}
+
+// Test calls have no server to answer tool calls, so the tools are async and the simulated
+// calendar's results are added to the conversation as system messages instead
+export const BOOKING_TOOLS: CreateFunctionToolDTO[] = [
+  {
+    type: "function",
+    async: true,
+    function: {
+      name: "check_availability",
+      description: "Check which demo slots are free. Returns a list of available times.",
+      parameters: {
+        type: "object",
+        properties: {
+          time_of_day: {
+            type: "string",
+            enum: ["morning", "afternoon", "any"],
+            description: "The prospect's preferred time of day",
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    async: true,
+    function: {
+      name: "book_appointment",
+      description: "Book a demo in one of the slots returned by check_availability.",
+      parameters: {
+        type: "object",
+        properties: {
+          slot: {
+            type: "string",
+            description: "The slot to book, exactly as returned by check_availability",
+          },
+          name: {
+            type: "string",
+            description: "The prospect's name",
+          },
+        },
+        required: ["slot"],
+      },
+    },
+  },
+]
+
+function isBookingTool(name: string): name is BookingToolName {
+  return name === "check_availability" || name === "book_appointment"
+}
+
+function matchesTimeOfDay(slot: string, timeOfDay: unknown) {
+  if (timeOfDay === "morning") {
+    return /\bAM\b/i.test(slot)
+  }
+  if (timeOfDay === "afternoon") {
+    return /\bPM\b/i.test(slot)
+  }
+  return true
+}
+
+interface MockCalendarStore {
+  // State
+  settings: MockCalendarSettings
+  loaded: boolean
+  // Reset at the start of each test call
+  attempts: Record<BookingToolName, number>
+  booked: string[]
+  events: ToolCallEvent[]
+
+  // Actions
+  load: () => void
+  reload: () => void
+  updateSettings: (changes: Partial<MockCalendarSettings>) => void
+  startSession: () => void
+  // Null when the simulated calendar is turned off, so the call gets no simulated answer
+  handleToolCall: (name: string, args: Record<string, unknown>) => ToolCallEvent | null
+}
+
+export const useMockCalendar = create<MockCalendarStore>((set, get) => ({
+  // Initial state
+  settings: DEFAULT_SETTINGS,
+  loaded: false,
+  attempts: { check_availability: 0, book_appointment: 0 },
+  booked: [],
+  events: [],
+
+  // Actions
+  load: () => {
+    if (get().loaded) {
+      return
+    }
+
+    const saved = localStorage.getItem(STORAGE_KEY)
+    let settings = DEFAULT_SETTINGS
+    try {
+      settings = saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS
+    } catch (error) {
+      // Corrupt or hand-edited settings fall back to the defaults rather than stopping test calls
+      console.error("Failed to read simulated calendar settings:", error)
+    }
+    set({ settings, loaded: true })
+  },
+
+  // Re-reads settings after they were changed outside the store, e.g. by a workspace import
+  reload: () => {
+    set({ loaded: false })
+    get().load()
+  },
+
+  updateSettings: (changes) => {
+    const settings = { ...get().settings, ...changes }
+    set({ settings })
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  },
+
+  startSession: () => {
+    set({ attempts: { check_availability: 0, book_appointment: 0 }, booked: [], events: [] })
+  },
+
+  handleToolCall: (name, args) => {
+    const { settings, attempts, booked } = get()
+    if (!settings.enabled) {
+      return null
+    }
+
+    const respond = (success: boolean, result: unknown) => {
+      const event = { name, args, success, result, timestamp: Date.now() }
+      set(state => ({ events: [...state.events, event] }))
+      return event
+    }
+
+    if (!isBookingTool(name)) {
+      return respond(false, { error: `${name} is not simulated on test calls` })
+    }
+
+    const attempt = attempts[name] + 1
+    set({ attempts: { ...attempts, [name]: attempt } })
+    if (attempt <= FAILED_ATTEMPTS[settings.failures[name]]) {
+      return respond(false, { error: TOOL_ERRORS[name] })
+    }
+
+    const available = settings.slots.filter(slot => !booked.includes(slot))
+    if (name === "check_availability") {
+      return respond(true, { available: available.filter(slot => matchesTimeOfDay(slot, args.time_of_day)) })
+    }
+
+    const slot = available.find(candidate => candidate.toLowerCase() === String(args.slot ?? "").trim().toLowerCase())
+    if (!slot) {
+      return respond(false, { error: "That slot is not available", available })
+    }
+    set(state => ({ booked: [...state.booked, slot] }))
+    return respond(true, { booked: slot, confirmation: `DEMO-${Math.floor(1000 + Math.random() * 9000)}` })
+  },
+}))
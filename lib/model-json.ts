@@ -0,0 +1,31 @@
+import * as z from "zod"
+
+interface ParseModelJsonErrors {
+  // When the reply has no JSON in it at all
+  missing: string
+  // When the JSON doesn't match the schema
+  invalid: string
+}
+
+// Models sometimes wrap JSON in fences or add a sentence around it despite being asked not to,
+// so only the outermost array or object, whichever the schema expects, is parsed
+function extractJson(text: string, array: boolean) {
+  const start = text.indexOf(array ? "[" : "{")
+  const end = text.lastIndexOf(array ? "]" : "}")
+  return start === -1 || end < start ? text : text.slice(start, end + 1)
+}
+
+export function parseModelJson<T extends z.ZodType>(text: string, schema: T, errors: ParseModelJsonErrors): z.output<T> {
+  let json: unknown
+  try {
+    json = JSON.parse(extractJson(text, schema instanceof z.ZodArray))
+  } catch {
+    throw new Error(errors.missing)
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    throw new Error(errors.invalid)
+  }
+  return result.data
+}
@@ -0,0 +1,258 @@
+import { createElement } from "react"
+import { flushSync } from "react-dom"
+import { createRoot } from "react-dom/client"
+import ReactMarkdown from "react-markdown"
+import type { Paragraph } from "docx"
+import { getMethodology } from "@/lib/methodologies"
+import { getCallDirection } from "@/lib/call-directions"
+import { getProvider } from "@/lib/providers"
+import { getCallContext } from "@/lib/call-state"
+import { buildVoiceAgentConfig, type VoicePlatformId } from "@/lib/voice-platforms"
+import { type PromptHistoryItem } from "@/lib/prompt-history"
+import { downloadFile } from "@/lib/utils"
+
+export type ExportFormat = "md" | "txt" | "pdf" | "docx"
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: "md", label: "Markdown (.md)" },
+  { id: "txt", label: "Plain text (.txt)" },
+  { id: "pdf", label: "PDF (print)" },
+  { id: "docx", label: "Word (.docx)" },
+]
+
+export type ExportablePrompt = Pick<PromptHistoryItem, "content" | "formData" | "timestamp" | "title" | "template" | "tools">
+
+export interface ExportOptions {
+  // Adds a block describing the client, persona and generation settings before each prompt
+  includeCover: boolean
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/
+const BULLET = /^(\s*)[-*+]\s+(.*)$/
+const NUMBERED = /^(\s*)(\d+\.)\s+(.*)$/
+
+function getTitle(prompt: ExportablePrompt) {
+  return prompt.title || `${prompt.formData.companyName || "Sales"} prompt`
+}
+
+function getCoverFields(prompt: ExportablePrompt): [string, string][] {
+  const { formData } = prompt
+  const fields: [string, string | undefined][] = [
+    ["Company", formData.companyName],
+    ["AI representative", formData.aiName],
+    ["Industry", formData.industry],
+    ["Target audience", formData.targetAudience],
+    ["Call objective", formData.objective],
+    ["Call direction", formData.callDirection && getCallDirection(formData.callDirection).name],
+    ["Sales methodology", formData.methodology && getMethodology(formData.methodology).name],
+    ["Model", formData.provider ? `${getProvider(formData.provider).name} ${formData.model}` : undefined],
+    ["Template", prompt.template && `${prompt.template.name} v${prompt.template.version}`],
+    ["Created", new Date(prompt.timestamp).toLocaleString()],
+  ]
+  return fields.filter((field): field is [string, string] => !!field[1])
+}
+
+function stripInlineMarkdown(text: string) {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/(^|\W)[*_](\S.*?)[*_](?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+}
+
+// Voice platforms that take plain text still understand `[Section]` markers, so only the # is dropped
+export function toPlainText(markdown: string) {
+  return markdown
+    .split("\n")
+    .map(line => {
+      const heading = line.match(HEADING)
+      if (heading) {
+        return stripInlineMarkdown(heading[2])
+      }
+      const bullet = line.match(BULLET)
+      if (bullet) {
+        return `${bullet[1]}- ${stripInlineMarkdown(bullet[2])}`
+      }
+      return stripInlineMarkdown(line)
+    })
+    .join("\n")
+}
+
+function toMarkdownDocument(prompts: ExportablePrompt[], { includeCover }: ExportOptions) {
+  return prompts.map(prompt => {
+    const cover = includeCover
+      ? `# ${getTitle(prompt)}\n\n${getCoverFields(prompt).map(([label, value]) => `- **${label}:** ${value}`).join("\n")}\n\n---\n\n`
+      : ""
+    return cover + prompt.content.trim()
+  }).join("\n\n---\n\n") + "\n"
+}
+
+function toTextDocument(prompts: ExportablePrompt[], { includeCover }: ExportOptions) {
+  const divider = "=".repeat(60)
+  return prompts.map(prompt => {
+    const cover = includeCover
+      ? `${getTitle(prompt)}\n${getCoverFields(prompt).map(([label, value]) => `${label}: ${value}`).join("\n")}\n${divider}\n\n`
+      : ""
+    return cover + toPlainText(prompt.content.trim())
+  }).join(`\n\n${divider}\n\n`) + "\n"
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Renders with the same markdown component the app uses, so the PDF matches what's on screen
+function renderMarkdownToHtml(markdown: string) {
+  const container = document.createElement("div")
+  const root = createRoot(container)
+  flushSync(() => root.render(createElement(ReactMarkdown, null, markdown)))
+  const html = container.innerHTML
+  root.unmount()
+  return html
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; font-size: 11pt; line-height: 1.5; color: #111; margin: 0; }
+  h1, h2, h3 { font-family: Helvetica, Arial, sans-serif; page-break-after: avoid; }
+  h1 { font-size: 16pt; margin: 1.2em 0 0.4em; }
+  ul, ol { padding-left: 1.4em; }
+  .cover { border: 1px solid #ccc; border-radius: 6px; padding: 12pt 16pt; margin-bottom: 18pt; }
+  .cover h1 { margin-top: 0; }
+  .cover table { border-collapse: collapse; font-family: Helvetica, Arial, sans-serif; font-size: 10pt; }
+  .cover td { padding: 2pt 12pt 2pt 0; vertical-align: top; }
+  .cover td:first-child { color: #555; white-space: nowrap; }
+  .prompt + .prompt { page-break-before: always; }
+  @page { margin: 2cm; }
+`
+
+// Opens the browser's print dialog, where the document can be saved as a PDF
+function printDocument(title: string, prompts: ExportablePrompt[], { includeCover }: ExportOptions) {
+  const body = prompts.map(prompt => {
+    const cover = includeCover
+      ? `<div class="cover"><h1>${escapeHtml(getTitle(prompt))}</h1><table>${
+        getCoverFields(prompt).map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join("")
+      }</table></div>`
+      : ""
+    return `<section class="prompt">${cover}${renderMarkdownToHtml(prompt.content)}</section>`
+  }).join("")
+
+  const iframe = document.createElement("iframe")
+  iframe.style.position = "fixed"
+  iframe.style.width = "0"
+  iframe.style.height = "0"
+  iframe.style.border = "0"
+  iframe.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`
+  iframe.onload = () => {
+    const printWindow = iframe.contentWindow
+    if (!printWindow) {
+      return
+    }
+    printWindow.addEventListener("afterprint", () => iframe.remove())
+    printWindow.focus()
+    printWindow.print()
+  }
+  document.body.appendChild(iframe)
+}
+
+type Docx = typeof import("docx")
+
+function toTextRuns({ TextRun }: Docx, text: string) {
+  // Split on **bold** spans; other inline markup is dropped
+  return text.split(/(\*\*.+?\*\*)/g).filter(Boolean).map(part => {
+    const bold = part.startsWith("**") && part.endsWith("**")
+    return new TextRun({ text: stripInlineMarkdown(bold ? part.slice(2, -2) : part), bold })
+  })
+}
+
+function toDocxParagraphs(docx: Docx, markdown: string): Paragraph[] {
+  const { HeadingLevel, Paragraph, TextRun } = docx
+  return markdown.split("\n").map(line => {
+    const heading = line.match(HEADING)
+    if (heading) {
+      return new Paragraph({
+        text: stripInlineMarkdown(heading[2]),
+        heading: heading[1].length === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2,
+      })
+    }
+    const bullet = line.match(BULLET)
+    if (bullet) {
+      return new Paragraph({ children: toTextRuns(docx, bullet[2]), bullet: { level: Math.min(Math.floor(bullet[1].length / 2), 8) } })
+    }
+    const numbered = line.match(NUMBERED)
+    if (numbered) {
+      return new Paragraph({
+        children: [new TextRun(`${numbered[2]} `), ...toTextRuns(docx, numbered[3])],
+        indent: { left: 360 * (1 + Math.floor(numbered[1].length / 2)) },
+      })
+    }
+    return new Paragraph({ children: toTextRuns(docx, line) })
+  })
+}
+
+async function toDocx(prompts: ExportablePrompt[], { includeCover }: ExportOptions) {
+  // docx is large, so it is only loaded when someone exports to Word
+  const docx = await import("docx")
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = docx
+  const doc = new Document({
+    sections: prompts.map(prompt => ({
+      children: [
+        ...(includeCover
+          ? [
+            new Paragraph({ text: getTitle(prompt), heading: HeadingLevel.TITLE }),
+            ...getCoverFields(prompt).map(([label, value]) => new Paragraph({
+              children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+            })),
+            new Paragraph({ text: "" }),
+          ]
+          : []),
+        ...toDocxParagraphs(docx, prompt.content.trim()),
+      ],
+    })),
+  })
+  return Packer.toBlob(doc)
+}
+
+function slugify(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "prompt"
+}
+
+// One prompt is named after its title; several go into one file named by date
+export async function exportPrompts(prompts: ExportablePrompt[], format: ExportFormat, options: ExportOptions) {
+  if (prompts.length === 0) {
+    return
+  }
+
+  const name = prompts.length === 1
+    ? slugify(getTitle(prompts[0]))
+    : `sales-prompts-${new Date().toISOString().slice(0, 10)}`
+
+  switch (format) {
+    case "md":
+      downloadFile(`${name}.md`, toMarkdownDocument(prompts, options), "text/markdown")
+      break
+    case "txt":
+      downloadFile(`${name}.txt`, toTextDocument(prompts, options), "text/plain")
+      break
+    case "pdf":
+      printDocument(name, prompts, options)
+      break
+    case "docx":
+      downloadFile(
+        `${name}.docx`,
+        await toDocx(prompts, options),
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      )
+      break
+  }
+}
+
+// Vapi gets the same assistant test calls use; other platforms get the closest equivalent config
+export function exportVoiceAgent(prompt: ExportablePrompt, platformId: VoicePlatformId) {
+  const config = buildVoiceAgentConfig(platformId, prompt.content, getCallContext(prompt.formData, prompt.tools))
+  downloadFile(`${slugify(getTitle(prompt))}-${platformId}-agent.json`, JSON.stringify(config, null, 2), "application/json")
+}
@@ -0,0 +1,449 @@
+import { create } from "zustand"
+import { type FormValues, type ApiKeyValues } from "@/components/prompt-form"
+import { type TemplateReference } from "@/lib/templates"
+import { type TranscriptTurn } from "@/lib/call-state"
+import { scoreCall, type CallScorecard } from "@/lib/call-analysis"
+import { type ProviderSettings } from "@/lib/providers"
+import { generatePromptTools, type PromptTool } from "@/lib/prompt-tools"
+import {
+  countHistoryItems,
+  deleteHistoryItem,
+  findHistoryItemByContent,
+  getAllHistoryItems,
+  getHistoryPage,
+  putHistoryItems,
+} from "@/lib/history-db"
+
+export interface PromptHistoryItem {
+  id: string
+  content: string
+  timestamp: number
+  formData: Omit<FormValues, keyof ApiKeyValues>
+  // Absent on items generated before the template library existed
+  template?: TemplateReference
+  // Set on versions derived from another history item, e.g. by refinement
+  parentId?: string
+  // What changed relative to the parent, such as the refinement instruction
+  revisionNote?: string
+  // Organisation fields set from the History tab
+  title?: string
+  tags?: string[]
+  pinned?: boolean
+  notes?: string
+  // Test calls made with this exact version of the prompt, oldest first
+  calls?: CallRecord[]
+  // Function definitions for the tools the prompt mentions; absent until they have been generated
+  tools?: PromptTool[]
+}
+
+export interface CallRecord {
+  id: string
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  // Vapi's ended reason, e.g. "customer-ended-call" or "assistant-ended-call"
+  endedReason: string
+  transcript: TranscriptTurn[]
+  // Added once the transcript has been scored, which may fail or happen later
+  scorecard?: CallScorecard
+}
+
+export type HistoryItemDetails = Pick<PromptHistoryItem, "title" | "tags" | "pinned" | "notes">
+
+// Describes how the current prompt was derived, so its history item can link to its parent
+export interface PromptRevision {
+  parentContent: string
+  note: string
+}
+
+export interface PromptVersion {
+  item: PromptHistoryItem
+  // 0 for the original, 1 for its direct revisions, and so on
+  depth: number
+  // Position within the version tree, in the order the versions were created
+  version: number
+}
+
+// Groups history into version trees, pinned trees first, then newest. Each tree lists its original
+// followed by its descendants depth-first. Items whose parent was deleted start their own tree.
+export function groupVersionTrees(history: PromptHistoryItem[]): PromptVersion[][] {
+  const ids = new Set(history.map(item => item.id))
+  const children = new Map<string, PromptHistoryItem[]>()
+  const roots: PromptHistoryItem[] = []
+
+  for (const item of history) {
+    if (item.parentId && item.parentId !== item.id && ids.has(item.parentId)) {
+      children.set(item.parentId, [...(children.get(item.parentId) ?? []), item])
+    } else {
+      roots.push(item)
+    }
+  }
+
+  const trees = roots
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(root => {
+      const tree: PromptVersion[] = []
+      const visit = (item: PromptHistoryItem, depth: number) => {
+        tree.push({ item, depth, version: 0 })
+        const revisions = [...(children.get(item.id) ?? [])].sort((a, b) => a.timestamp - b.timestamp)
+        revisions.forEach(revision => visit(revision, depth + 1))
+      }
+      visit(root, 0)
+
+      const byAge = [...tree].sort((a, b) => a.item.timestamp - b.item.timestamp)
+      byAge.forEach((node, index) => {
+        node.version = index + 1
+      })
+      return tree
+    })
+
+  // Pinned trees first; each group keeps its newest-first order
+  const isPinned = (tree: PromptVersion[]) => tree.some(node => node.item.pinned)
+  return [...trees.filter(isPinned), ...trees.filter(tree => !isPinned(tree))]
+}
+
+export type HistorySort = "newest" | "oldest" | "name"
+
+export interface HistoryFilters {
+  query: string
+  company: string
+  industry: string
+  model: string
+  tag: string
+  pinnedOnly: boolean
+  // yyyy-mm-dd, as produced by date inputs; empty for no bound
+  from: string
+  to: string
+  sort: HistorySort
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: "",
+  company: "",
+  industry: "",
+  model: "",
+  tag: "",
+  pinnedOnly: false,
+  from: "",
+  to: "",
+  sort: "newest",
+}
+
+export function hasActiveFilters(filters: HistoryFilters) {
+  return Boolean(filters.query.trim() || filters.company || filters.industry || filters.model
+    || filters.tag || filters.pinnedOnly || filters.from || filters.to)
+}
+
+// Used for sorting by name
+export function getHistoryItemName(item: PromptHistoryItem) {
+  return item.title || item.formData.companyName || item.content.split("\n")[0]
+}
+
+// Tags are matched case-insensitively, so "Acme" and "acme" are the same tag
+export function parseTags(text: string): string[] {
+  const tags = text.split(",").map(tag => tag.trim()).filter(Boolean)
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index)
+}
+
+function getSearchText(item: PromptHistoryItem) {
+  const formValues = Object.values(item.formData).filter(value => typeof value === "string")
+  return [item.content, ...formValues, item.template?.name, item.revisionNote, item.title, item.notes, ...(item.tags ?? [])]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase()
+}
+
+// Every word of the query must appear somewhere in the prompt or the form data it was generated from
+export function filterHistory(history: PromptHistoryItem[], filters: HistoryFilters): PromptHistoryItem[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean)
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity
+
+  const matches = history.filter(item => {
+    const excluded = (filters.company && item.formData.companyName !== filters.company)
+      || (filters.industry && item.formData.industry !== filters.industry)
+      || (filters.model && item.formData.model !== filters.model)
+      || (filters.tag && !item.tags?.some(tag => tag.toLowerCase() === filters.tag.toLowerCase()))
+      || (filters.pinnedOnly && !item.pinned)
+      || item.timestamp < from
+      || item.timestamp > to
+    if (excluded) {
+      return false
+    }
+
+    const text = getSearchText(item)
+    return terms.every(term => text.includes(term))
+  })
+
+  // Pinned items stay at the top whatever the sort order
+  return matches.sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) {
+      return a.pinned ? -1 : 1
+    }
+    switch (filters.sort) {
+      case "oldest":
+        return a.timestamp - b.timestamp
+      case "name":
+        return getHistoryItemName(a).localeCompare(getHistoryItemName(b)) || b.timestamp - a.timestamp
+      default:
+        return b.timestamp - a.timestamp
+    }
+  })
+}
+
+// History used to be a single JSON array in localStorage; it is moved to IndexedDB on first load
+const LEGACY_STORAGE_KEY = "prompt-history"
+const PAGE_SIZE = 50
+// Warn once the origin has used this share of the storage the browser allows it
+const QUOTA_WARNING_RATIO = 0.8
+
+interface PromptHistoryStore {
+  // State
+  items: PromptHistoryItem[]
+  total: number
+  loaded: boolean
+  hasMore: boolean
+  storageWarning: string | null
+  // The most recently saved test call, so it can be scored with the current provider settings
+  latestCall: { itemId: string; callId: string } | null
+  scoringCallIds: string[]
+  generatingToolIds: string[]
+
+  // Actions
+  load: () => Promise<void>
+  reload: () => Promise<void>
+  loadMore: () => Promise<void>
+  loadAll: () => Promise<void>
+  addItem: (item: PromptHistoryItem) => Promise<boolean>
+  updateItem: (id: string, details: HistoryItemDetails) => Promise<void>
+  deleteItem: (id: string) => Promise<void>
+  // Attaches a test call to the history item with this content; false if there is none
+  addCallRecord: (content: string, record: CallRecord) => Promise<boolean>
+  scoreCallRecord: (itemId: string, callId: string, settings: ProviderSettings) => Promise<void>
+  generateItemTools: (itemId: string, settings: ProviderSettings) => Promise<void>
+  checkStorage: () => Promise<void>
+}
+
+let loadPromise: Promise<void> | null = null
+// Contents currently being written, so effects that fire twice don't add the same prompt twice
+const pendingContents = new Set<string>()
+
+async function migrateLegacyHistory() {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!saved) {
+    return
+  }
+
+  let items: PromptHistoryItem[]
+  try {
+    items = JSON.parse(saved)
+  } catch (error) {
+    // Unreadable legacy history is left where it is rather than blocking the stored history
+    console.error("Skipped migrating unreadable legacy history:", error)
+    return
+  }
+  await putHistoryItems(items)
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+}
+
+function isQuotaError(error: unknown) {
+  return error instanceof DOMException && error.name === "QuotaExceededError"
+}
+
+export const usePromptHistory = create<PromptHistoryStore>((set, get) => ({
+  // Initial state
+  items: [],
+  total: 0,
+  loaded: false,
+  hasMore: false,
+  storageWarning: null,
+  latestCall: null,
+  scoringCallIds: [],
+  generatingToolIds: [],
+
+  // Actions
+  load: () => {
+    if (!loadPromise) {
+      loadPromise = (async () => {
+        try {
+          await migrateLegacyHistory()
+          const [total, items] = await Promise.all([countHistoryItems(), getHistoryPage(PAGE_SIZE)])
+          set({ items, total, hasMore: items.length < total, loaded: true })
+        } catch (error) {
+          console.error("Failed to load prompt history:", error)
+          set({ loaded: true })
+        }
+        await get().checkStorage()
+      })()
+    }
+    return loadPromise
+  },
+
+  // Re-reads history after it was changed outside the store, e.g. by a workspace import
+  reload: () => {
+    loadPromise = null
+    return get().load()
+  },
+
+  loadMore: async () => {
+    const { items, hasMore } = get()
+    if (!hasMore) {
+      return
+    }
+
+    const before = items[items.length - 1]?.timestamp
+    const page = await getHistoryPage(PAGE_SIZE, before)
+    const known = new Set(items.map(item => item.id))
+    const loadedItems = [...items, ...page.filter(item => !known.has(item.id))]
+    set({ items: loadedItems, hasMore: page.length === PAGE_SIZE && loadedItems.length < get().total })
+  },
+
+  // Search and filters look at every item, not just the pages loaded so far
+  loadAll: async () => {
+    if (!get().hasMore) {
+      return
+    }
+
+    const items = await getAllHistoryItems()
+    set({ items, total: items.length, hasMore: false })
+  },
+
+  addItem: async (item) => {
+    if (pendingContents.has(item.content) || get().items.some(existing => existing.content === item.content)) {
+      return false
+    }
+
+    pendingContents.add(item.content)
+    try {
+      // The same prompt may already be stored beyond the pages loaded so far
+      if (await findHistoryItemByContent(item.content)) {
+        return false
+      }
+      await putHistoryItems([item])
+      set(state => ({ items: [item, ...state.items], total: state.total + 1 }))
+    } catch (error) {
+      console.error("Failed to save prompt to history:", error)
+      if (isQuotaError(error)) {
+        set({ storageWarning: "Browser storage is full, so new prompts can't be saved to history. Delete old prompts to free up space." })
+      }
+      return false
+    } finally {
+      pendingContents.delete(item.content)
+    }
+
+    await get().checkStorage()
+    return true
+  },
+
+  updateItem: async (id, details) => {
+    const item = get().items.find(existing => existing.id === id)
+    if (!item) {
+      return
+    }
+
+    const updated = { ...item, ...details }
+    await putHistoryItems([updated])
+    set(state => ({ items: state.items.map(existing => existing.id === id ? updated : existing) }))
+  },
+
+  deleteItem: async (id) => {
+    await deleteHistoryItem(id)
+    set(state => ({
+      items: state.items.filter(item => item.id !== id),
+      total: Math.max(0, state.total - 1),
+    }))
+    await get().checkStorage()
+  },
+
+  addCallRecord: async (content, record) => {
+    try {
+      // The prompt may be stored beyond the pages loaded so far
+      const item = get().items.find(existing => existing.content === content) ?? await findHistoryItemByContent(content)
+      if (!item) {
+        return false
+      }
+
+      const updated = { ...item, calls: [...(item.calls ?? []), record] }
+      await putHistoryItems([updated])
+      set(state => ({
+        items: state.items.map(existing => existing.id === item.id ? updated : existing),
+        latestCall: { itemId: item.id, callId: record.id },
+      }))
+      return true
+    } catch (error) {
+      console.error("Failed to save call record:", error)
+      return false
+    }
+  },
+
+  // Throws if the model can't be reached or doesn't return a usable scorecard
+  scoreCallRecord: async (itemId, callId, settings) => {
+    const item = get().items.find(existing => existing.id === itemId)
+    const record = item?.calls?.find(call => call.id === callId)
+    if (!item || !record || get().scoringCallIds.includes(callId)) {
+      return
+    }
+
+    set(state => ({ scoringCallIds: [...state.scoringCallIds, callId] }))
+    try {
+      const scorecard = await scoreCall(settings, item.content, record.transcript)
+
+      // Re-read the item, which may have been edited or deleted while the model was working
+      const latest = get().items.find(existing => existing.id === itemId)
+      if (!latest) {
+        return
+      }
+      const updated = {
+        ...latest,
+        calls: latest.calls?.map(call => call.id === callId ? { ...call, scorecard } : call),
+      }
+      await putHistoryItems([updated])
+      set(state => ({ items: state.items.map(existing => existing.id === itemId ? updated : existing) }))
+    } finally {
+      set(state => ({ scoringCallIds: state.scoringCallIds.filter(id => id !== callId) }))
+    }
+  },
+
+  // Throws if the model can't be reached or doesn't return valid definitions
+  generateItemTools: async (itemId, settings) => {
+    const item = get().items.find(existing => existing.id === itemId)
+    if (!item || get().generatingToolIds.includes(itemId)) {
+      return
+    }
+
+    set(state => ({ generatingToolIds: [...state.generatingToolIds, itemId] }))
+    try {
+      const tools = await generatePromptTools(settings, item.content)
+
+      const latest = get().items.find(existing => existing.id === itemId)
+      if (!latest) {
+        return
+      }
+      const updated = { ...latest, tools }
+      await putHistoryItems([updated])
+      set(state => ({ items: state.items.map(existing => existing.id === itemId ? updated : existing) }))
+    } finally {
+      set(state => ({ generatingToolIds: state.generatingToolIds.filter(id => id !== itemId) }))
+    }
+  },
+
+  checkStorage: async () => {
+    if (!navigator.storage?.estimate) {
+      return
+    }
+
+    let ratio = 0
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+      ratio = quota ? usage / quota : 0
+    } catch (error) {
+      // Without an estimate there is nothing to warn about
+      console.error("Failed to estimate storage usage:", error)
+    }
+    set({
+      storageWarning: ratio >= QUOTA_WARNING_RATIO
+        ? `Browser storage is ${Math.round(ratio * 100)}% full. Delete old prompts before history stops saving.`
+        : null,
+    })
+  },
+}))
@@ -0,0 +1,48 @@
+// Generated prompts are structured as `# [Style]`, `# [Sales Methodology]`, `# [Tasks]` and `# [Objection Handling]`
+const SECTION_HEADING = /^#{1,3}\s*\[(.+?)\]\s*$/
+
+export interface PromptSection {
+  // Null for any introduction before the first heading
+  title: string | null
+  // The section text, including its heading line and trailing blank lines
+  content: string
+}
+
+// Joining the content of every section gives back the original prompt unchanged
+export function parsePromptSections(prompt: string): PromptSection[] {
+  const sections: PromptSection[] = []
+  let current: PromptSection = { title: null, content: "" }
+
+  for (const line of prompt.split(/(?<=\n)/)) {
+    const match = line.trim().match(SECTION_HEADING)
+    if (match) {
+      if (current.content) {
+        sections.push(current)
+      }
+      current = { title: match[1], content: line }
+    } else {
+      current.content += line
+    }
+  }
+
+  if (current.content) {
+    sections.push(current)
+  }
+  return sections
+}
+
+export function replacePromptSection(prompt: string, index: number, content: string): string {
+  return parsePromptSections(prompt)
+    .map((section, i) => {
+      if (i !== index) {
+        return section.content
+      }
+      // Keep the original heading if the new text lacks one, and the spacing before the next heading
+      const heading = content.trimStart().split("\n")[0].trim().match(SECTION_HEADING)
+        ? ""
+        : section.content.split("\n")[0] + "\n"
+      const trailingWhitespace = section.content.match(/\s*$/)?.[0] ?? ""
+      return heading + content.trim() + trailingWhitespace
+    })
+    .join("")
+}
@@ -0,0 +1,55 @@
+import * as z from "zod"
+import { type CreateFunctionToolDTO, type OpenAIFunction } from "@vapi-ai/web/dist/api"
+import { parseModelJson } from "@/lib/model-json"
+import { createChatCompletion, type ProviderSettings } from "@/lib/providers"
+
+// OpenAI function calling format, which Vapi and most voice platforms accept as-is
+export const promptToolSchema = z.object({
+  type: z.literal("function").default("function"),
+  function: z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Tool names may only use letters, numbers, _ and -"),
+    description: z.string(),
+    parameters: z.looseObject({
+      type: z.literal("object"),
+      properties: z.record(z.string(), z.unknown()).default({}),
+      required: z.array(z.string()).optional(),
+    }).default({ type: "object", properties: {} }),
+  }),
+})
+
+export type PromptTool = z.infer<typeof promptToolSchema>
+
+const TOOLS_SYSTEM_PROMPT = `You define the tools a voice AI sales representative needs to follow its system prompt. Read the system prompt and list every tool or function it tells the representative to use, plus any action it expects the representative to take that needs a system behind it, such as booking a demo, checking a calendar, transferring the call to sales or sending a follow-up email.
+
+- Keep the exact name when the prompt names a tool; otherwise use a short snake_case name
+- Describe when the representative should call the tool and what it returns
+- Give every parameter a JSON Schema type and description, and list the ones that are required
+- Do not invent tools for things the representative can do by talking
+
+Respond with only a JSON array of OpenAI function definitions, with no markdown fences, or [] if the prompt needs no tools:
+[{"type": "function", "function": {"name": "", "description": "", "parameters": {"type": "object", "properties": {}, "required": []}}}]`
+
+export async function generatePromptTools(settings: ProviderSettings, prompt: string): Promise<PromptTool[]> {
+  const content = await createChatCompletion(settings, {
+    messages: [
+      { role: "system", content: TOOLS_SYSTEM_PROMPT },
+      { role: "user", content: `System prompt:\n\n${prompt}` },
+    ],
+    temperature: 0.2,
+    maxTokens: 1500,
+  })
+
+  const tools = parseModelJson(content, z.array(promptToolSchema), {
+    missing: "The model did not return tool definitions",
+    invalid: "The model returned invalid tool definitions",
+  })
+  // A tool mentioned in several sections is sometimes defined more than once
+  return tools.filter((tool, index) => (
+    tools.findIndex(other => other.function.name === tool.function.name) === index
+  ))
+}
+
+// Left synchronous so a deployed assistant waits for its server to return each tool's result
+export function toVapiTools(tools: PromptTool[]): CreateFunctionToolDTO[] {
+  return tools.map(tool => ({ type: "function", function: tool.function as OpenAIFunction }))
+}
@@ -0,0 +1,287 @@
+import OpenAI, { AzureOpenAI } from "openai"
+import Anthropic from "@anthropic-ai/sdk"
+import { GoogleGenAI } from "@google/genai"
+
+export type ProviderId = "openai" | "anthropic" | "azure" | "google" | "compatible"
+
+export interface ProviderSettings {
+  provider: string
+  model: string
+  apiKey?: string
+  anthropicKey?: string
+  azureKey?: string
+  azureEndpoint?: string
+  googleKey?: string
+  compatibleKey?: string
+  compatibleBaseUrl?: string
+}
+
+type CredentialField = Exclude<keyof ProviderSettings, "provider" | "model">
+
+export interface ProviderField {
+  name: CredentialField
+  label: string
+  placeholder: string
+  secret: boolean
+  required: boolean
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  // When provided, the completion is streamed and each token is reported as it arrives
+  onToken?: (token: string, content: string) => void
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  id: ProviderId
+  name: string
+  fields: ProviderField[]
+  models: string[]
+  // Free-form model names, e.g. Azure deployments or whatever a local server has pulled
+  customModels: boolean
+  // Highest temperature the API accepts; Anthropic only goes up to 1
+  maxTemperature: number
+  complete: (settings: ProviderSettings, request: ChatRequest) => Promise<string>
+}
+
+const AZURE_API_VERSION = "2024-10-21"
+const DEFAULT_MAX_TOKENS = 2000
+
+async function completeWithOpenAIClient(
+  client: OpenAI,
+  model: string,
+  { messages, temperature, maxTokens = DEFAULT_MAX_TOKENS, onToken, signal }: ChatRequest
+): Promise<string> {
+  if (!onToken) {
+    const response = await client.chat.completions.create({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+    }, { signal })
+
+    return response.choices[0]?.message?.content || ""
+  }
+
+  const stream = await client.chat.completions.create({
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+    stream: true,
+  }, { signal })
+
+  let content = ""
+  for await (const chunk of stream) {
+    const token = chunk.choices[0]?.delta?.content
+    if (token) {
+      content += token
+      onToken(token, content)
+    }
+  }
+  return content
+}
+
+// Anthropic and Google take the system prompt separately from the conversation
+function splitSystemMessages(messages: ChatMessage[]) {
+  return {
+    system: messages.filter(m => m.role === "system").map(m => m.content).join("\n\n"),
+    conversation: messages.filter(m => m.role !== "system") as { role: "user" | "assistant"; content: string }[],
+  }
+}
+
+export const PROVIDERS: LLMProvider[] = [
+  {
+    id: "openai",
+    name: "OpenAI",
+    fields: [
+      { name: "apiKey", label: "OpenAI API Key", placeholder: "sk-...", secret: true, required: true },
+    ],
+    models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"],
+    customModels: false,
+    maxTemperature: 2,
+    complete: (settings, request) => {
+      const client = new OpenAI({
+        apiKey: settings.apiKey,
+        dangerouslyAllowBrowser: true,
+      })
+      return completeWithOpenAIClient(client, settings.model, request)
+    },
+  },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    fields: [
+      { name: "anthropicKey", label: "Anthropic API Key", placeholder: "sk-ant-...", secret: true, required: true },
+    ],
+    models: ["claude-sonnet-4-5", "claude-haiku-4-5", "claude-opus-4-1"],
+    customModels: false,
+    maxTemperature: 1,
+    complete: async (settings, { messages, temperature, maxTokens = DEFAULT_MAX_TOKENS, onToken, signal }) => {
+      const client = new Anthropic({
+        apiKey: settings.anthropicKey,
+        dangerouslyAllowBrowser: true,
+      })
+      const { system, conversation } = splitSystemMessages(messages)
+
+      if (!onToken) {
+        const response = await client.messages.create({
+          model: settings.model,
+          system,
+          messages: conversation,
+          temperature,
+          max_tokens: maxTokens,
+        }, { signal })
+
+        return response.content.map(block => block.type === "text" ? block.text : "").join("")
+      }
+
+      const stream = await client.messages.create({
+        model: settings.model,
+        system,
+        messages: conversation,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+      }, { signal })
+
+      let content = ""
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          content += event.delta.text
+          onToken(event.delta.text, content)
+        }
+      }
+      return content
+    },
+  },
+  {
+    id: "azure",
+    name: "Azure OpenAI",
+    fields: [
+      { name: "azureKey", label: "Azure OpenAI API Key", placeholder: "Azure key", secret: true, required: true },
+      { name: "azureEndpoint", label: "Azure Endpoint", placeholder: "https://your-resource.openai.azure.com", secret: false, required: true },
+    ],
+    models: ["gpt-4o-mini", "gpt-4o"],
+    customModels: true,
+    maxTemperature: 2,
+    complete: (settings, request) => {
+      const client = new AzureOpenAI({
+        apiKey: settings.azureKey,
+        endpoint: settings.azureEndpoint,
+        apiVersion: AZURE_API_VERSION,
+        deployment: settings.model,
+        dangerouslyAllowBrowser: true,
+      })
+      return completeWithOpenAIClient(client, settings.model, request)
+    },
+  },
+  {
+    id: "google",
+    name: "Google",
+    fields: [
+      { name: "googleKey", label: "Google AI API Key", placeholder: "AIza...", secret: true, required: true },
+    ],
+    models: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"],
+    customModels: false,
+    maxTemperature: 2,
+    complete: async (settings, { messages, temperature, maxTokens = DEFAULT_MAX_TOKENS, onToken, signal }) => {
+      const client = new GoogleGenAI({ apiKey: settings.googleKey })
+      const { system, conversation } = splitSystemMessages(messages)
+      const params = {
+        model: settings.model,
+        contents: conversation.map(m => ({
+          role: m.role === "assistant" ? "model" : "user",
+          parts: [{ text: m.content }],
+        })),
+        config: {
+          systemInstruction: system || undefined,
+          temperature,
+          maxOutputTokens: maxTokens,
+          abortSignal: signal,
+        },
+      }
+
+      if (!onToken) {
+        const response = await client.models.generateContent(params)
+        return response.text || ""
+      }
+
+      const stream = await client.models.generateContentStream(params)
+      let content = ""
+      for await (const chunk of stream) {
+        const token = chunk.text
+        if (token) {
+          content += token
+          onToken(token, content)
+        }
+      }
+      return content
+    },
+  },
+  {
+    id: "compatible",
+    name: "OpenAI-compatible",
+    fields: [
+      { name: "compatibleBaseUrl", label: "Base URL", placeholder: "http://localhost:11434/v1", secret: false, required: true },
+      { name: "compatibleKey", label: "API Key (Optional)", placeholder: "Leave blank for local servers", secret: true, required: false },
+    ],
+    models: ["llama3.1", "qwen2.5", "mistral"],
+    customModels: true,
+    maxTemperature: 2,
+    complete: (settings, request) => {
+      const client = new OpenAI({
+        // Local servers such as Ollama ignore the key, but the SDK refuses to start without one
+        apiKey: settings.compatibleKey || "not-needed",
+        baseURL: settings.compatibleBaseUrl,
+        dangerouslyAllowBrowser: true,
+      })
+      return completeWithOpenAIClient(client, settings.model, request)
+    },
+  },
+]
+
+export const DEFAULT_PROVIDER: ProviderId = "openai"
+
+export function getProvider(id: string): LLMProvider {
+  return PROVIDERS.find(provider => provider.id === id) ?? PROVIDERS[0]
+}
+
+// Returns the first required credential the selected provider is still missing
+export function getMissingProviderField(settings: ProviderSettings): ProviderField | undefined {
+  return getProvider(settings.provider).fields.find(field => field.required && !settings[field.name])
+}
+
+export async function createChatCompletion(settings: ProviderSettings, request: ChatRequest): Promise<string> {
+  const provider = getProvider(settings.provider)
+  let content = ""
+
+  try {
+    return await provider.complete(settings, {
+      ...request,
+      // Older history items may carry a temperature the provider doesn't accept
+      temperature: request.temperature === undefined ? undefined : Math.min(request.temperature, provider.maxTemperature),
+      onToken: request.onToken && ((token, partial) => {
+        content = partial
+        request.onToken?.(token, partial)
+      }),
+    })
+  } catch (error) {
+    // A stopped stream keeps whatever was generated before the abort
+    if (request.signal?.aborted) {
+      return content
+    }
+    if (error instanceof Error) {
+      throw new Error(`${provider.name} API Error: ${error.message}`)
+    }
+    throw new Error(`An unknown error occurred while calling ${provider.name}`)
+  }
+}
@@ -0,0 +1,144 @@
+import { create } from 'zustand'
+import { DEFAULT_SYSTEM_PROMPT, DEFAULT_USER_PROMPT } from '@/lib/openai'
+
+export interface PromptTemplate {
+  id: string
+  name: string
+  version: number
+  systemPrompt: string
+  userPrompt: string
+  builtIn: boolean
+  updatedAt: number
+  // Earlier saved versions, oldest first, so history items can still look up what generated them
+  versions?: TemplateVersion[]
+}
+
+export interface TemplateVersion {
+  version: number
+  systemPrompt: string
+  userPrompt: string
+  updatedAt: number
+}
+
+// Recorded on history items so a prompt can be traced back to what generated it
+export interface TemplateReference {
+  id: string
+  name: string
+  version: number
+}
+
+export const BUILT_IN_TEMPLATE_ID = 'built-in'
+
+const STORAGE_KEY = 'prompt-templates'
+
+export const BUILT_IN_TEMPLATE: PromptTemplate = {
+  id: BUILT_IN_TEMPLATE_ID,
+  name: 'Built-in',
+  version: 1,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  userPrompt: DEFAULT_USER_PROMPT,
+  builtIn: true,
+  updatedAt: 0,
+}
+
+interface TemplateLibraryStore {
+  // State
+  templates: PromptTemplate[]
+  loaded: boolean
+
+  // Actions
+  load: () => void
+  reload: () => void
+  getTemplate: (id: string | undefined) => PromptTemplate
+  // The content a template had at this version, if the template and version still exist
+  getTemplateVersion: (id: string, version: number) => TemplateVersion | undefined
+  duplicateTemplate: (id: string) => PromptTemplate
+  saveTemplate: (id: string, changes: Pick<PromptTemplate, 'name' | 'systemPrompt' | 'userPrompt'>) => void
+  deleteTemplate: (id: string) => void
+}
+
+function persist(templates: PromptTemplate[]) {
+  // The built-in template ships with the app and is never stored
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(template => !template.builtIn)))
+}
+
+export const useTemplateLibrary = create<TemplateLibraryStore>((set, get) => ({
+  // Initial state
+  templates: [BUILT_IN_TEMPLATE],
+  loaded: false,
+
+  // Actions
+  load: () => {
+    if (get().loaded) {
+      return
+    }
+
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const customTemplates: PromptTemplate[] = saved ? JSON.parse(saved) : []
+    set({ templates: [BUILT_IN_TEMPLATE, ...customTemplates], loaded: true })
+  },
+
+  reload: () => {
+    set({ loaded: false })
+    get().load()
+  },
+
+  getTemplate: (id) => {
+    return get().templates.find(template => template.id === id) ?? BUILT_IN_TEMPLATE
+  },
+
+  getTemplateVersion: (id, version) => {
+    const template = get().templates.find(existing => existing.id === id)
+    if (template?.version === version) {
+      return { version, systemPrompt: template.systemPrompt, userPrompt: template.userPrompt, updatedAt: template.updatedAt }
+    }
+    return template?.versions?.find(earlier => earlier.version === version)
+  },
+
+  duplicateTemplate: (id) => {
+    const source = get().getTemplate(id)
+    const copy: PromptTemplate = {
+      ...source,
+      id: crypto.randomUUID(),
+      name: `${source.name} (copy)`,
+      version: 1,
+      versions: [],
+      builtIn: false,
+      updatedAt: Date.now(),
+    }
+
+    const templates = [...get().templates, copy]
+    set({ templates })
+    persist(templates)
+    return copy
+  },
+
+  saveTemplate: (id, changes) => {
+    const templates = get().templates.map(template => {
+      if (template.id !== id || template.builtIn) {
+        return template
+      }
+      const { version, systemPrompt, userPrompt, updatedAt } = template
+      return {
+        ...template,
+        ...changes,
+        version: version + 1,
+        updatedAt: Date.now(),
+        versions: [...(template.versions ?? []), { version, systemPrompt, userPrompt, updatedAt }],
+      }
+    })
+
+    set({ templates })
+    persist(templates)
+  },
+
+  deleteTemplate: (id) => {
+    const templates = get().templates.filter(template => template.id !== id || template.builtIn)
+    set({ templates })
+    persist(templates)
+  },
+}))
+
+export function toTemplateReference(template: PromptTemplate): TemplateReference {
+  return { id: template.id, name: template.name, version: template.version }
+}
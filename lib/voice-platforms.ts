@@ -0,0 +1,237 @@
+import * as z from "zod"
+import { getCallDirection } from "@/lib/call-directions"
+import { buildAssistant, type CallContext } from "@/lib/call-state"
+import { DEFAULT_VOICE_SETTINGS, getTranscriberLanguage, getVoiceProvider } from "@/lib/voice-settings"
+
+export type VoicePlatformId = "vapi" | "retell" | "bland" | "elevenlabs" | "openai-realtime"
+
+export interface VoicePlatform {
+  id: VoicePlatformId
+  name: string
+  // Where the exported JSON goes on the platform
+  target: string
+  schema: z.ZodType
+  build: (systemPrompt: string, context: CallContext) => unknown
+}
+
+// Defaults for platforms that don't share Vapi's voice ids
+const RETELL_VOICE_ID = "11labs-Adrian"
+const BLAND_VOICE = "maya"
+const REALTIME_VOICE = "alloy"
+const REALTIME_MODEL = "gpt-4o-realtime-preview"
+// Replaced by hand with the id Retell returns for the created LLM
+const RETELL_LLM_ID_PLACEHOLDER = "REPLACE_WITH_LLM_ID"
+
+const metadataSchema = z.record(z.string(), z.string())
+
+const vapiSchema = z.object({
+  name: z.string().min(1),
+  voice: z.looseObject({
+    provider: z.string().min(1),
+    voiceId: z.string().min(1),
+  }),
+  model: z.looseObject({
+    provider: z.string().min(1),
+    model: z.string().min(1),
+    messages: z.array(z.object({
+      role: z.enum(["system", "user", "assistant"]),
+      content: z.string().min(1),
+    })).min(1),
+  }),
+  firstMessage: z.string().min(1),
+  transcriber: z.looseObject({
+    provider: z.string().min(1),
+    model: z.string().optional(),
+    language: z.string().optional(),
+  }),
+  metadata: metadataSchema.optional(),
+})
+
+// Retell keeps the prompt on a Retell LLM and points the agent at it by llm_id. The export is a
+// two-step template: create the LLM from `llm`, then put its llm_id into `agent` and create that.
+const retellSchema = z.object({
+  llm: z.object({
+    model: z.string().min(1),
+    general_prompt: z.string().min(1),
+    begin_message: z.string().min(1),
+    start_speaker: z.enum(["agent", "user"]),
+  }),
+  agent: z.object({
+    agent_name: z.string().min(1),
+    voice_id: z.string().min(1),
+    language: z.string().min(1),
+    response_engine: z.object({
+      type: z.literal("retell-llm"),
+      llm_id: z.string().min(1),
+    }),
+    metadata: metadataSchema.optional(),
+  }),
+})
+
+const blandSchema = z.object({
+  task: z.string().min(1),
+  first_sentence: z.string().min(1),
+  voice: z.string().min(1),
+  model: z.enum(["base", "turbo"]),
+  language: z.string().min(1),
+  record: z.boolean(),
+  metadata: metadataSchema.optional(),
+})
+
+const elevenLabsSchema = z.object({
+  name: z.string().min(1),
+  conversation_config: z.object({
+    agent: z.object({
+      first_message: z.string().min(1),
+      language: z.string().min(1),
+      prompt: z.object({
+        prompt: z.string().min(1),
+        llm: z.string().min(1),
+      }),
+    }),
+    tts: z.object({
+      voice_id: z.string().min(1),
+      stability: z.number().min(0).max(1),
+      similarity_boost: z.number().min(0).max(1),
+    }),
+  }),
+  tags: z.array(z.string()).optional(),
+})
+
+const realtimeSchema = z.object({
+  model: z.string().min(1),
+  modalities: z.array(z.enum(["audio", "text"])).min(1),
+  instructions: z.string().min(1),
+  voice: z.string().min(1),
+  input_audio_transcription: z.object({
+    model: z.string().min(1),
+  }),
+  turn_detection: z.object({
+    type: z.literal("server_vad"),
+  }),
+})
+
+function getMetadata(context: CallContext): Record<string, string> {
+  return {
+    companyName: context.companyName,
+    ...(context.callDirection && { callDirection: context.callDirection }),
+  }
+}
+
+function getFirstMessage(context: CallContext) {
+  return getCallDirection(context.callDirection).firstMessage(context)
+}
+
+// Other platforms name non-OpenAI models differently, so those fall back to the default call model
+function getOpenAIModel({ voice }: CallContext) {
+  return voice.callProvider === "openai" ? voice.callModel : DEFAULT_VOICE_SETTINGS.callModel
+}
+
+// ElevenLabs agents can only use ElevenLabs voices
+function getElevenLabsVoice({ voice }: CallContext) {
+  return getVoiceProvider(voice.voiceProvider).tunable ? voice : DEFAULT_VOICE_SETTINGS
+}
+
+export const VOICE_PLATFORMS: VoicePlatform[] = [
+  {
+    id: "vapi",
+    name: "Vapi",
+    target: "Create assistant API",
+    schema: vapiSchema,
+    build: buildAssistant,
+  },
+  {
+    id: "retell",
+    name: "Retell",
+    target: "Two-step template: create the LLM, then the agent with its llm_id",
+    schema: retellSchema,
+    build: (systemPrompt, context) => ({
+      llm: {
+        model: getOpenAIModel(context),
+        general_prompt: systemPrompt,
+        begin_message: getFirstMessage(context),
+        start_speaker: "agent",
+      },
+      agent: {
+        agent_name: context.assistantName,
+        voice_id: RETELL_VOICE_ID,
+        language: getTranscriberLanguage(context.voice.transcriberLanguage).locale,
+        response_engine: { type: "retell-llm", llm_id: RETELL_LLM_ID_PLACEHOLDER },
+        metadata: getMetadata(context),
+      },
+    }),
+  },
+  {
+    id: "bland",
+    name: "Bland",
+    target: "Send call API, plus the phone number to call",
+    schema: blandSchema,
+    build: (systemPrompt, context) => ({
+      task: systemPrompt,
+      first_sentence: getFirstMessage(context),
+      voice: BLAND_VOICE,
+      model: "base",
+      language: context.voice.transcriberLanguage,
+      record: true,
+      metadata: getMetadata(context),
+    }),
+  },
+  {
+    id: "elevenlabs",
+    name: "ElevenLabs",
+    target: "Conversational AI create agent API",
+    schema: elevenLabsSchema,
+    build: (systemPrompt, context) => {
+      const voice = getElevenLabsVoice(context)
+      return {
+        name: context.assistantName,
+        conversation_config: {
+          agent: {
+            first_message: getFirstMessage(context),
+            language: context.voice.transcriberLanguage,
+            prompt: {
+              prompt: systemPrompt,
+              llm: getOpenAIModel(context),
+            },
+          },
+          tts: {
+            voice_id: voice.voiceId,
+            stability: voice.stability,
+            similarity_boost: voice.similarityBoost,
+          },
+        },
+        tags: [context.companyName],
+      }
+    },
+  },
+  {
+    id: "openai-realtime",
+    name: "OpenAI Realtime",
+    target: "session.update event or session create API",
+    schema: realtimeSchema,
+    // Realtime sessions have no opening message, so the prompt tells the model how to open
+    build: (systemPrompt, context) => ({
+      model: REALTIME_MODEL,
+      modalities: ["audio", "text"],
+      instructions: `${systemPrompt}\n\nStart the conversation by saying: "${getFirstMessage(context)}"`,
+      voice: REALTIME_VOICE,
+      input_audio_transcription: { model: "whisper-1" },
+      turn_detection: { type: "server_vad" },
+    }),
+  },
+]
+
+export function getVoicePlatform(id: string): VoicePlatform {
+  return VOICE_PLATFORMS.find(platform => platform.id === id) ?? VOICE_PLATFORMS[0]
+}
+
+// Throws with the first schema issue if the adapter produced a config the platform would reject
+export function buildVoiceAgentConfig(platformId: VoicePlatformId, systemPrompt: string, context: CallContext) {
+  const platform = getVoicePlatform(platformId)
+  const result = platform.schema.safeParse(platform.build(systemPrompt, context))
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid ${platform.name} config: ${issue?.path.join(".") || "config"} ${issue?.message ?? ""}`.trim())
+  }
+  return result.data
+}
@@ -0,0 +1,111 @@
+import * as z from "zod"
+
+export interface VoiceOption {
+  id: string
+  name: string
+}
+
+export interface VoiceProvider {
+  // Vapi's provider id
+  id: string
+  name: string
+  voices: VoiceOption[]
+  // Only ElevenLabs voices take stability and similarity settings
+  tunable: boolean
+}
+
+export interface CallModelProvider {
+  id: string
+  name: string
+  models: string[]
+}
+
+export interface TranscriberLanguage {
+  code: string
+  name: string
+  // Platforms such as Retell want a full locale rather than a language code
+  locale: string
+}
+
+export const VOICE_PROVIDERS: VoiceProvider[] = [
+  {
+    id: "11labs",
+    name: "ElevenLabs",
+    voices: [
+      { id: "JBFqnCBsd6RMkjVDRZzb", name: "George" },
+      { id: "21m00Tcm4TlvDq8ikWAM", name: "Rachel" },
+      { id: "EXAVITQu4vr4xnSDxMaL", name: "Sarah" },
+      { id: "TX3LPaxmHKxFdv7VOQHJ", name: "Liam" },
+    ],
+    tunable: true,
+  },
+  {
+    id: "openai",
+    name: "OpenAI",
+    voices: ["alloy", "echo", "fable", "onyx", "nova", "shimmer"].map(id => ({ id, name: id })),
+    tunable: false,
+  },
+  {
+    id: "playht",
+    name: "PlayHT",
+    voices: ["jennifer", "melissa", "will", "chris"].map(id => ({ id, name: id })),
+    tunable: false,
+  },
+]
+
+export const TRANSCRIBER_MODELS = ["nova-2", "nova-2-phonecall", "nova-3"]
+
+export const TRANSCRIBER_LANGUAGES: TranscriberLanguage[] = [
+  { code: "en", name: "English", locale: "en-US" },
+  { code: "es", name: "Spanish", locale: "es-ES" },
+  { code: "fr", name: "French", locale: "fr-FR" },
+  { code: "de", name: "German", locale: "de-DE" },
+  { code: "it", name: "Italian", locale: "it-IT" },
+  { code: "pt", name: "Portuguese", locale: "pt-BR" },
+  { code: "nl", name: "Dutch", locale: "nl-NL" },
+  { code: "hi", name: "Hindi", locale: "hi-IN" },
+  { code: "ja", name: "Japanese", locale: "ja-JP" },
+]
+
+export const CALL_MODEL_PROVIDERS: CallModelProvider[] = [
+  { id: "openai", name: "OpenAI", models: ["gpt-4o", "gpt-4o-mini", "gpt-4.1", "gpt-4.1-mini"] },
+  { id: "anthropic", name: "Anthropic", models: ["claude-3-5-sonnet-20241022", "claude-3-5-haiku-20241022"] },
+  { id: "google", name: "Google", models: ["gemini-1.5-pro", "gemini-1.5-flash"] },
+]
+
+export const voiceSettingsSchema = z.object({
+  voiceProvider: z.string().min(1, "Voice provider is required"),
+  voiceId: z.string().min(1, "Voice ID is required"),
+  stability: z.number().min(0, "Min 0").max(1, "Max 1"),
+  similarityBoost: z.number().min(0, "Min 0").max(1, "Max 1"),
+  transcriberModel: z.string().min(1, "Transcriber model is required"),
+  transcriberLanguage: z.string().min(1, "Language is required"),
+  callProvider: z.string().min(1, "Call model provider is required"),
+  callModel: z.string().min(1, "Call model is required"),
+})
+
+export type VoiceSettings = z.infer<typeof voiceSettingsSchema>
+
+// What test calls used before these settings existed, so older history items sound the same
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceProvider: "11labs",
+  voiceId: "JBFqnCBsd6RMkjVDRZzb",
+  stability: 0.6,
+  similarityBoost: 0.75,
+  transcriberModel: "nova-2",
+  transcriberLanguage: "en",
+  callProvider: "openai",
+  callModel: "gpt-4o",
+}
+
+export function getVoiceProvider(id: string): VoiceProvider {
+  return VOICE_PROVIDERS.find(provider => provider.id === id) ?? VOICE_PROVIDERS[0]
+}
+
+export function getCallModelProvider(id: string): CallModelProvider {
+  return CALL_MODEL_PROVIDERS.find(provider => provider.id === id) ?? CALL_MODEL_PROVIDERS[0]
+}
+
+export function getTranscriberLanguage(code: string): TranscriberLanguage {
+  return TRANSCRIBER_LANGUAGES.find(language => language.code === code) ?? TRANSCRIBER_LANGUAGES[0]
+}
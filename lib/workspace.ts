@@ -0,0 +1,275 @@
+import * as z from "zod"
+import { pickFormValues, type FormValues } from "@/components/prompt-form"
+import { type PromptHistoryItem } from "@/lib/prompt-history"
+import { type PromptTemplate } from "@/lib/templates"
+import { callScorecardSchema } from "@/lib/call-analysis"
+import { promptToolSchema } from "@/lib/prompt-tools"
+import { clearHistoryItems, getAllHistoryItems, putHistoryItems } from "@/lib/history-db"
+
+export const WORKSPACE_FORMAT = "sales-prompt-creator-workspace"
+export const WORKSPACE_VERSION = 1
+
+// API keys and endpoints live under their own keys and are never exported.
+// Form data is passed through pickFormValues, which only keeps form fields.
+const FORM_STORAGE_KEY = "sales-prompt-form"
+const CURRENT_PROMPT_KEY = "current-prompt"
+const TEMPLATES_STORAGE_KEY = "prompt-templates"
+const SETTINGS_KEYS = ["sales-prompt-form-api-section", "mock-calendar-settings"]
+
+export type ImportMode = "merge" | "replace"
+
+export interface ImportSummary {
+  historyAdded: number
+  historySkipped: number
+  templatesAdded: number
+  templatesSkipped: number
+}
+
+// Only the types are checked: a saved form may be half filled in, so the form's own rules don't apply.
+// Older bundles may be missing fields added since; pickFormValues fills them in on import.
+const formDataSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  temperature: z.number(),
+  stream: z.boolean(),
+  variants: z.array(z.object({ model: z.string(), temperature: z.number() })),
+  templateId: z.string(),
+  methodology: z.string(),
+  callDirection: z.string(),
+  aiName: z.string(),
+  companyName: z.string(),
+  industry: z.string(),
+  targetAudience: z.string(),
+  challenges: z.string(),
+  product: z.string(),
+  objective: z.string(),
+  objections: z.string(),
+  additionalInfo: z.string(),
+  voice: z.object({
+    voiceProvider: z.string(),
+    voiceId: z.string(),
+    stability: z.number(),
+    similarityBoost: z.number(),
+    transcriberModel: z.string(),
+    transcriberLanguage: z.string(),
+    callProvider: z.string(),
+    callModel: z.string(),
+  }),
+}).partial()
+
+const callRecordSchema = z.object({
+  id: z.string(),
+  startedAt: z.number(),
+  endedAt: z.number(),
+  durationMs: z.number(),
+  endedReason: z.string(),
+  transcript: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    text: z.string(),
+    timestamp: z.number(),
+  })),
+  scorecard: callScorecardSchema.optional(),
+})
+
+const historyItemSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  timestamp: z.number(),
+  formData: formDataSchema,
+  template: z.object({ id: z.string(), name: z.string(), version: z.number() }).optional(),
+  parentId: z.string().optional(),
+  revisionNote: z.string().optional(),
+  title: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  pinned: z.boolean().optional(),
+  notes: z.string().optional(),
+  calls: z.array(callRecordSchema).optional(),
+  tools: z.array(promptToolSchema).optional(),
+})
+
+const templateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  version: z.number(),
+  systemPrompt: z.string(),
+  userPrompt: z.string(),
+  builtIn: z.boolean().optional(),
+  updatedAt: z.number(),
+  versions: z.array(z.object({
+    version: z.number(),
+    systemPrompt: z.string(),
+    userPrompt: z.string(),
+    updatedAt: z.number(),
+  })).optional(),
+})
+
+const bundleSchema = z.object({
+  format: z.literal(WORKSPACE_FORMAT, "This file is not a workspace export"),
+  version: z.number().int().max(WORKSPACE_VERSION, "This file was exported by a newer version of the app"),
+  exportedAt: z.string(),
+  history: z.array(historyItemSchema),
+  // Custom templates only; the built-in template ships with the app
+  templates: z.array(templateSchema),
+  form: formDataSchema.nullable(),
+  currentPrompt: z.string().nullable(),
+  settings: z.record(z.string(), z.string()),
+})
+
+export type WorkspaceBundle = z.infer<typeof bundleSchema>
+type BundleHistoryItem = WorkspaceBundle["history"][number]
+type BundleTemplate = WorkspaceBundle["templates"][number]
+
+export async function hashContent(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function templateHash(template: Pick<PromptTemplate, "systemPrompt" | "userPrompt">) {
+  return hashContent(`${template.systemPrompt}\n\n${template.userPrompt}`)
+}
+
+function readJson<T>(key: string): T | null {
+  const saved = localStorage.getItem(key)
+  return saved ? JSON.parse(saved) : null
+}
+
+function sanitizeHistoryItem(item: BundleHistoryItem): PromptHistoryItem {
+  return { ...item, formData: pickFormValues(item.formData) }
+}
+
+export async function exportWorkspace(): Promise<WorkspaceBundle> {
+  const savedForm = readJson<FormValues>(FORM_STORAGE_KEY)
+  const settings = Object.fromEntries(
+    SETTINGS_KEYS.flatMap(key => {
+      const value = localStorage.getItem(key)
+      return value === null ? [] : [[key, value]]
+    })
+  )
+
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    history: (await getAllHistoryItems()).map(sanitizeHistoryItem),
+    templates: readJson<PromptTemplate[]>(TEMPLATES_STORAGE_KEY) ?? [],
+    form: savedForm ? pickFormValues(savedForm) : null,
+    currentPrompt: localStorage.getItem(CURRENT_PROMPT_KEY),
+    settings,
+  }
+}
+
+// Throws with a readable message if the file isn't a workspace bundle this version can read
+export function parseWorkspaceBundle(text: string): WorkspaceBundle {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("This file is not valid JSON")
+  }
+
+  const result = bundleSchema.safeParse(json)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    if (!issue) {
+      throw new Error("This file is not a workspace export")
+    }
+    // Top-level issues carry their own messages; nested ones say where in the file they are
+    throw new Error(issue.path.length > 1 ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message)
+  }
+  return result.data
+}
+
+async function mergeHistory(imported: PromptHistoryItem[]) {
+  const existing = await getAllHistoryItems()
+  const existingIds = new Set(existing.map(item => item.id))
+  const existingByHash = new Map<string, string>()
+  for (const item of existing) {
+    existingByHash.set(await hashContent(item.content), item.id)
+  }
+
+  // Imported ids are remapped on collision, and duplicates point at the copy already stored,
+  // so parent links inside the bundle still resolve
+  const idMap = new Map<string, string>()
+  const added: PromptHistoryItem[] = []
+  for (const item of imported) {
+    const hash = await hashContent(item.content)
+    const duplicateOf = existingByHash.get(hash)
+    if (duplicateOf) {
+      idMap.set(item.id, duplicateOf)
+      continue
+    }
+    const id = existingIds.has(item.id) ? crypto.randomUUID() : item.id
+    idMap.set(item.id, id)
+    existingIds.add(id)
+    existingByHash.set(hash, id)
+    added.push({ ...item, id })
+  }
+
+  await putHistoryItems(added.map(item => ({
+    ...item,
+    parentId: item.parentId ? idMap.get(item.parentId) ?? item.parentId : undefined,
+  })))
+  return { historyAdded: added.length, historySkipped: imported.length - added.length }
+}
+
+async function mergeTemplates(imported: BundleTemplate[]) {
+  const existing = readJson<PromptTemplate[]>(TEMPLATES_STORAGE_KEY) ?? []
+  const ids = new Set(existing.map(template => template.id))
+  const hashes = new Set(await Promise.all(existing.map(templateHash)))
+
+  const added: PromptTemplate[] = []
+  for (const template of imported) {
+    const hash = await templateHash(template)
+    if (hashes.has(hash)) {
+      continue
+    }
+    const id = ids.has(template.id) ? crypto.randomUUID() : template.id
+    ids.add(id)
+    hashes.add(hash)
+    added.push({ ...template, id, builtIn: false })
+  }
+
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify([...existing, ...added]))
+  return { templatesAdded: added.length, templatesSkipped: imported.length - added.length }
+}
+
+// Merge adds history and templates that aren't already here and leaves everything else alone.
+// Replace swaps history, templates, the saved form, current prompt and settings for the bundle's.
+export async function importWorkspace(bundle: WorkspaceBundle, mode: ImportMode): Promise<ImportSummary> {
+  const history = bundle.history.map(sanitizeHistoryItem)
+  const templates = bundle.templates.filter(template => !template.builtIn)
+
+  if (mode === "merge") {
+    return {
+      ...await mergeHistory(history),
+      ...await mergeTemplates(templates),
+    }
+  }
+
+  await clearHistoryItems()
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, "[]")
+  const summary = {
+    ...await mergeHistory(history),
+    ...await mergeTemplates(templates),
+  }
+
+  if (bundle.form) {
+    localStorage.setItem(FORM_STORAGE_KEY, JSON.stringify(pickFormValues(bundle.form)))
+  } else {
+    localStorage.removeItem(FORM_STORAGE_KEY)
+  }
+  if (bundle.currentPrompt) {
+    localStorage.setItem(CURRENT_PROMPT_KEY, bundle.currentPrompt)
+  } else {
+    localStorage.removeItem(CURRENT_PROMPT_KEY)
+  }
+  SETTINGS_KEYS.forEach(key => {
+    const value = bundle.settings[key]
+    if (value === undefined) {
+      localStorage.removeItem(key)
+    } else {
+      localStorage.setItem(key, value)
+    }
+  })
+  return summary
+}